@@ -0,0 +1,114 @@
+import { AudioLines } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { MAX_INPUT_GAIN, MIN_GATE_THRESHOLD, type AudioSettings as Settings } from "@/lib/audio-processing";
+
+interface AudioSettingsProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+  /** Web Audio worklets are available; music mode works without them */
+  canProcess: boolean;
+}
+
+const AudioSettings = ({ settings, onChange, canProcess }: AudioSettingsProps) => {
+  const update = (patch: Partial<Settings>) => onChange({ ...settings, ...patch });
+  const processingDisabled = !canProcess || settings.musicMode;
+  const tuningDisabled = processingDisabled || !settings.processing;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant={settings.processing || settings.musicMode ? "default" : "secondary"}
+          size="lg"
+          className="w-14 h-14 rounded-full"
+          aria-label="Настройки звука"
+        >
+          <AudioLines className="w-6 h-6" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Звук</DialogTitle>
+          <DialogDescription>Обработка микрофона перед отправкой собеседникам</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="audio-processing">Обработка звука</Label>
+            <Switch
+              id="audio-processing"
+              checked={settings.processing && !processingDisabled}
+              disabled={processingDisabled}
+              onCheckedChange={(processing) => update({ processing })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Усиление</Label>
+              <span className="text-sm text-muted-foreground">{Math.round(settings.gain * 100)}%</span>
+            </div>
+            <Slider
+              aria-label="Усиление"
+              min={0}
+              max={MAX_INPUT_GAIN}
+              step={0.05}
+              value={[settings.gain]}
+              disabled={tuningDisabled}
+              onValueChange={([gain]) => update({ gain })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Порог шумоподавления</Label>
+              <span className="text-sm text-muted-foreground">
+                {settings.gateThreshold <= MIN_GATE_THRESHOLD ? "выкл." : `${settings.gateThreshold} дБ`}
+              </span>
+            </div>
+            <Slider
+              aria-label="Порог шумоподавления"
+              min={MIN_GATE_THRESHOLD}
+              max={0}
+              step={1}
+              value={[settings.gateThreshold]}
+              disabled={tuningDisabled}
+              onValueChange={([gateThreshold]) => update({ gateThreshold })}
+            />
+            <p className="text-xs text-muted-foreground">Всё тише порога не передаётся</p>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="audio-high-pass">Срезать низкий гул</Label>
+            <Switch
+              id="audio-high-pass"
+              checked={settings.highPass}
+              disabled={tuningDisabled}
+              onCheckedChange={(highPass) => update({ highPass })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4 border-t border-border pt-4">
+            <div className="space-y-1">
+              <Label htmlFor="audio-music-mode">Режим музыки</Label>
+              <p className="text-xs text-muted-foreground">
+                Без обработки, стерео и высокий битрейт — для инструментов и записей
+              </p>
+            </div>
+            <Switch
+              id="audio-music-mode"
+              checked={settings.musicMode}
+              onCheckedChange={(musicMode) => update({ musicMode })}
+            />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AudioSettings;
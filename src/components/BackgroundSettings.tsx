@@ -0,0 +1,147 @@
+import { useEffect, useRef, useState, type ChangeEvent, type CSSProperties, type ReactNode } from "react";
+import { Ban, ImagePlus, Sparkles, Wallpaper } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import type { BackgroundEffect } from "@/lib/video-effects";
+import { cn } from "@/lib/utils";
+
+const COLORS = ["#1f2937", "#0f766e", "#1d4ed8", "#7c3aed", "#be123c", "#f5f5f4"];
+
+interface BackgroundSettingsProps {
+  effect: BackgroundEffect;
+  onChange: (effect: BackgroundEffect) => void;
+}
+
+interface OptionProps {
+  selected: boolean;
+  label: string;
+  onClick: () => void;
+  className?: string;
+  style?: CSSProperties;
+  children?: ReactNode;
+}
+
+const Option = ({ selected, label, onClick, className, style, children }: OptionProps) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-label={label}
+    aria-pressed={selected}
+    title={label}
+    style={style}
+    className={cn(
+      "aspect-video rounded-md border-2 flex items-center justify-center bg-secondary bg-cover bg-center transition-colors",
+      selected ? "border-primary" : "border-transparent hover:border-muted-foreground/40",
+      className,
+    )}
+  >
+    {children}
+  </button>
+);
+
+const BackgroundSettings = ({ effect, onChange }: BackgroundSettingsProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Uploaded pictures stay on this device; the object URL lives as long as the call
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  useEffect(() => () => {
+    if (imageUrl) {
+      URL.revokeObjectURL(imageUrl);
+    }
+  }, [imageUrl]);
+
+  const handleImage = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !file.type.startsWith("image/")) {
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    onChange({ type: "image", url });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant={effect.type === "none" ? "secondary" : "default"}
+          size="lg"
+          className="w-14 h-14 rounded-full"
+          aria-label="Фон"
+        >
+          <Wallpaper className="w-6 h-6" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Фон</DialogTitle>
+          <DialogDescription>
+            Обработка идёт на вашем устройстве, собеседники получают уже готовое видео
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <Option selected={effect.type === "none"} label="Без эффекта" onClick={() => onChange({ type: "none" })}>
+              <Ban className="w-5 h-5 text-muted-foreground" />
+            </Option>
+            <Option selected={effect.type === "blur"} label="Размытие" onClick={() => onChange({ type: "blur" })}>
+              <Sparkles className="w-5 h-5 text-muted-foreground" />
+            </Option>
+            {imageUrl ? (
+              <Option
+                selected={effect.type === "image"}
+                label="Своё изображение"
+                onClick={() => onChange({ type: "image", url: imageUrl })}
+                style={{ backgroundImage: `url(${imageUrl})` }}
+              />
+            ) : (
+              <Option selected={false} label="Загрузить изображение" onClick={() => fileInputRef.current?.click()}>
+                <ImagePlus className="w-5 h-5 text-muted-foreground" />
+              </Option>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Цвет</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              {COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  aria-label={`Цвет ${color}`}
+                  aria-pressed={effect.type === "color" && effect.color === color}
+                  onClick={() => onChange({ type: "color", color })}
+                  className={cn(
+                    "w-8 h-8 rounded-full border-2",
+                    effect.type === "color" && effect.color === color ? "border-primary" : "border-border",
+                  )}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+              <input
+                type="color"
+                aria-label="Другой цвет"
+                value={effect.type === "color" ? effect.color : COLORS[0]}
+                onChange={(event) => onChange({ type: "color", color: event.target.value })}
+                className="w-8 h-8 rounded-full cursor-pointer bg-transparent"
+              />
+            </div>
+          </div>
+
+          <div>
+            <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleImage} />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <ImagePlus className="w-4 h-4 mr-2" />
+              {imageUrl ? "Заменить изображение" : "Загрузить изображение"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BackgroundSettings;
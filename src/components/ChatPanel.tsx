@@ -0,0 +1,178 @@
+import { useEffect, useRef, useState, type ChangeEvent, type FormEvent, type KeyboardEvent } from "react";
+import { format } from "date-fns";
+import { Paperclip, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Textarea } from "@/components/ui/textarea";
+import { MAX_CHAT_MESSAGE_LENGTH, type ChatMessage } from "@/lib/chat";
+import type { FileTransfer } from "@/lib/file-transfer";
+import { UNKNOWN_PARTICIPANT } from "@/lib/participant";
+import { cn } from "@/lib/utils";
+import ParticipantAvatar from "./ParticipantAvatar";
+import FileTransferItem from "./FileTransferItem";
+
+interface ChatPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  messages: ChatMessage[];
+  /** False while nobody else is connected; the draft is kept */
+  canSend: boolean;
+  onSend: (text: string) => void;
+  transfers: FileTransfer[];
+  /** Offers the files to everyone connected */
+  onSendFiles: (files: File[]) => void;
+  onAcceptFile: (transfer: FileTransfer) => void;
+  onDeclineFile: (transfer: FileTransfer) => void;
+  onCancelFile: (transfer: FileTransfer) => void;
+}
+
+const URL_PATTERN = /(https?:\/\/[^\s]+)/g;
+
+// Links are the main reason to use the chat, so make them clickable
+const MessageText = ({ text }: { text: string }) => (
+  <p className="text-sm whitespace-pre-wrap break-words">
+    {text.split(URL_PATTERN).map((part, index) =>
+      index % 2 === 1 ? (
+        <a key={index} href={part} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2">
+          {part}
+        </a>
+      ) : (
+        part
+      ),
+    )}
+  </p>
+);
+
+const ChatPanel = ({
+  open,
+  onOpenChange,
+  messages,
+  canSend,
+  onSend,
+  transfers,
+  onSendFiles,
+  onAcceptFile,
+  onDeclineFile,
+  onCancelFile,
+}: ChatPanelProps) => {
+  const [draft, setDraft] = useState("");
+  const endRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      endRef.current?.scrollIntoView({ block: "end" });
+    }
+  }, [open, messages.length]);
+
+  const send = () => {
+    const text = draft.trim();
+    if (!text || !canSend) {
+      return;
+    }
+    onSend(text);
+    setDraft("");
+  };
+
+  const handleFiles = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Allow picking the same file again, e.g. to resume an interrupted transfer
+    event.target.value = "";
+    if (files.length > 0) {
+      onSendFiles(files);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    send();
+  };
+
+  // Enter sends, Shift+Enter starts a new line
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === "Enter" && !event.shiftKey && !event.nativeEvent.isComposing) {
+      event.preventDefault();
+      send();
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col gap-4 w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Чат</SheetTitle>
+          <SheetDescription>Сообщения видят только участники звонка</SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-2">
+          <div className="space-y-3 px-2">
+            {messages.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">Сообщений пока нет</p>
+            )}
+            {messages.map((message) => (
+              <div key={message.id} className={cn("flex gap-2", message.own && "flex-row-reverse")}>
+                <ParticipantAvatar profile={{ ...UNKNOWN_PARTICIPANT, ...message.author }} size="md" />
+                <div
+                  className={cn(
+                    "max-w-[80%] rounded-lg px-3 py-2",
+                    message.own ? "bg-primary text-primary-foreground" : "bg-secondary",
+                  )}
+                >
+                  <div className="flex items-baseline gap-2 text-xs opacity-70 mb-0.5">
+                    {!message.own && <span className="font-medium truncate">{message.author.name}</span>}
+                    <time dateTime={message.sentAt}>{format(new Date(message.sentAt), "HH:mm")}</time>
+                  </div>
+                  <MessageText text={message.text} />
+                </div>
+              </div>
+            ))}
+            <div ref={endRef} />
+          </div>
+        </ScrollArea>
+
+        {transfers.length > 0 && (
+          <div className="max-h-56 overflow-y-auto space-y-2 -mx-2 px-2">
+            {transfers.map((transfer) => (
+              <FileTransferItem
+                key={transfer.id}
+                transfer={transfer}
+                onAccept={onAcceptFile}
+                onDecline={onDeclineFile}
+                onCancel={onCancelFile}
+              />
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="flex items-end gap-2">
+          <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFiles} />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            disabled={!canSend}
+            onClick={() => fileInputRef.current?.click()}
+            aria-label="Отправить файл"
+          >
+            <Paperclip className="w-4 h-4" />
+          </Button>
+          <Textarea
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={canSend ? "Сообщение" : "Нет подключённых участников"}
+            maxLength={MAX_CHAT_MESSAGE_LENGTH}
+            rows={2}
+            className="resize-none"
+          />
+          <Button type="submit" size="icon" disabled={!canSend || !draft.trim()} aria-label="Отправить">
+            <Send className="w-4 h-4" />
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ChatPanel;
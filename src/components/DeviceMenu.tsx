@@ -0,0 +1,84 @@
+import { Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { MediaDeviceLists } from "@/hooks/use-media-devices";
+import type { MediaDeviceSelection } from "@/lib/media";
+
+const DEFAULT_DEVICE = "default";
+
+interface DeviceMenuProps {
+  devices: MediaDeviceLists;
+  selection: MediaDeviceSelection;
+  onSelect: (key: keyof MediaDeviceSelection, deviceId: string) => void;
+}
+
+interface DeviceGroupProps {
+  label: string;
+  devices: MediaDeviceInfo[];
+  value: string | undefined;
+  onChange: (deviceId: string) => void;
+}
+
+const DeviceGroup = ({ label, devices, value, onChange }: DeviceGroupProps) => (
+  <>
+    <DropdownMenuLabel>{label}</DropdownMenuLabel>
+    <DropdownMenuRadioGroup value={value ?? DEFAULT_DEVICE} onValueChange={onChange}>
+      {devices.length === 0 && (
+        <DropdownMenuRadioItem value={DEFAULT_DEVICE} disabled>
+          Нет устройств
+        </DropdownMenuRadioItem>
+      )}
+      {devices.map((device, index) => (
+        <DropdownMenuRadioItem key={device.deviceId} value={device.deviceId}>
+          <span className="truncate">{device.label || `${label} ${index + 1}`}</span>
+        </DropdownMenuRadioItem>
+      ))}
+    </DropdownMenuRadioGroup>
+  </>
+);
+
+const DeviceMenu = ({ devices, selection, onSelect }: DeviceMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="secondary" size="lg" className="w-14 h-14 rounded-full" aria-label="Настройки устройств">
+        <Settings className="w-6 h-6" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent side="top" className="w-72 max-h-[70vh] overflow-y-auto">
+      <DeviceGroup
+        label="Камера"
+        devices={devices.videoInputs}
+        value={selection.videoInputId}
+        onChange={(deviceId) => onSelect("videoInputId", deviceId)}
+      />
+      <DropdownMenuSeparator />
+      <DeviceGroup
+        label="Микрофон"
+        devices={devices.audioInputs}
+        value={selection.audioInputId}
+        onChange={(deviceId) => onSelect("audioInputId", deviceId)}
+      />
+      {devices.audioOutputs.length > 0 && (
+        <>
+          <DropdownMenuSeparator />
+          <DeviceGroup
+            label="Динамики"
+            devices={devices.audioOutputs}
+            value={selection.audioOutputId}
+            onChange={(deviceId) => onSelect("audioOutputId", deviceId)}
+          />
+        </>
+      )}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default DeviceMenu;
@@ -0,0 +1,80 @@
+import { Download, FileIcon, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { FileTransfer, TransferStatus } from "@/lib/file-transfer";
+
+interface FileTransferItemProps {
+  transfer: FileTransfer;
+  onAccept: (transfer: FileTransfer) => void;
+  onDecline: (transfer: FileTransfer) => void;
+  onCancel: (transfer: FileTransfer) => void;
+}
+
+const STATUS_LABELS: Record<TransferStatus, string> = {
+  pending: "Ожидает ответа",
+  declined: "Отклонено",
+  transferring: "Передача...",
+  verifying: "Проверка контрольной суммы...",
+  done: "Готово",
+  failed: "Ошибка: файл повреждён или не передан",
+  cancelled: "Отменено",
+  interrupted: "Прервано — отправьте файл снова, чтобы продолжить",
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} Б`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} КБ`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} МБ`;
+};
+
+const FileTransferItem = ({ transfer, onAccept, onDecline, onCancel }: FileTransferItemProps) => {
+  const incoming = transfer.direction === "incoming";
+  const active = transfer.status === "transferring" || transfer.status === "verifying";
+  const percent = transfer.size === 0 ? 100 : (transfer.transferred / transfer.size) * 100;
+
+  return (
+    <div className="rounded-lg border border-border p-3 space-y-2">
+      <div className="flex items-start gap-2">
+        <FileIcon className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate" title={transfer.name}>{transfer.name}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {incoming ? `От ${transfer.peerName}` : `Для ${transfer.peerName}`} · {formatFileSize(transfer.size)}
+          </p>
+        </div>
+        {(active || (transfer.status === "pending" && !incoming)) && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onCancel(transfer)} aria-label="Отменить">
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {active && <Progress value={percent} className="h-1.5" aria-label="Прогресс передачи" />}
+
+      {incoming && transfer.status === "pending" ? (
+        <div className="flex gap-2">
+          <Button size="sm" className="flex-1" onClick={() => onAccept(transfer)}>
+            Принять
+          </Button>
+          <Button size="sm" variant="outline" className="flex-1" onClick={() => onDecline(transfer)}>
+            Отклонить
+          </Button>
+        </div>
+      ) : transfer.status === "done" && transfer.url ? (
+        <Button size="sm" variant="secondary" className="w-full" asChild>
+          <a href={transfer.url} download={transfer.name}>
+            <Download className="w-4 h-4 mr-2" />
+            Сохранить
+          </a>
+        </Button>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {STATUS_LABELS[transfer.status]}
+          {active && ` ${Math.floor(percent)}%`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FileTransferItem;
@@ -0,0 +1,41 @@
+import { useState, type FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface LobbyMessageFormProps {
+  onSend: (message: string) => void;
+}
+
+// Optional note attached to a guest's knock, shown to the host next to the name
+const LobbyMessageForm = ({ onSend }: LobbyMessageFormProps) => {
+  const [message, setMessage] = useState("");
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSend(message.trim());
+    setSent(true);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-sm space-y-2 text-left">
+      <Label htmlFor="knock-message">Сообщение организатору (необязательно)</Label>
+      <Textarea
+        id="knock-message"
+        value={message}
+        maxLength={200}
+        rows={2}
+        onChange={(e) => {
+          setMessage(e.target.value);
+          setSent(false);
+        }}
+      />
+      <Button type="submit" size="sm" variant="secondary" className="w-full" disabled={sent}>
+        {sent ? "Отправлено" : "Отправить"}
+      </Button>
+    </form>
+  );
+};
+
+export default LobbyMessageForm;
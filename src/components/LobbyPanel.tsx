@@ -0,0 +1,79 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Check, Users, X } from "lucide-react";
+import type { LobbyEntry } from "@/lib/lobby";
+import ParticipantAvatar from "./ParticipantAvatar";
+
+interface LobbyPanelProps {
+  queue: LobbyEntry[];
+  /** Free places left in the call */
+  capacity: number;
+  onAdmit: (ids: string[]) => void;
+  onDeny: (ids: string[]) => void;
+}
+
+const formatKnockTime = (at: string) =>
+  new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+const LobbyPanel = ({ queue, capacity, onAdmit, onDeny }: LobbyPanelProps) => {
+  const ids = queue.map((entry) => entry.id);
+
+  return (
+    <Card className="w-full lg:w-80 shrink-0 flex flex-col border-border">
+      <div className="flex items-center justify-between gap-2 p-4 border-b border-border">
+        <div className="flex items-center gap-2">
+          <Users className="w-4 h-4 text-primary" />
+          <h2 className="font-semibold text-foreground">Зал ожидания</h2>
+          <span className="text-sm text-muted-foreground">({queue.length})</span>
+        </div>
+      </div>
+
+      <ScrollArea className="max-h-96 lg:max-h-[60vh]">
+        <ul className="divide-y divide-border">
+          {queue.map((entry) => (
+            <li key={entry.id} className="p-4 space-y-2">
+              <div className="flex items-center gap-3">
+                <ParticipantAvatar profile={entry.profile} />
+                <span className="flex-1 font-medium text-foreground truncate">{entry.profile.name}</span>
+                <span className="text-xs text-muted-foreground shrink-0">{formatKnockTime(entry.at)}</span>
+              </div>
+              {entry.message && (
+                <p className="text-sm text-muted-foreground break-words">{entry.message}</p>
+              )}
+              <div className="flex gap-2">
+                <Button size="sm" className="flex-1" disabled={capacity === 0} onClick={() => onAdmit([entry.id])}>
+                  <Check className="w-4 h-4 mr-1" />
+                  Впустить
+                </Button>
+                <Button size="sm" variant="outline" className="flex-1" onClick={() => onDeny([entry.id])}>
+                  <X className="w-4 h-4 mr-1" />
+                  Отклонить
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+
+      {queue.length > 1 && (
+        <div className="flex gap-2 p-4 border-t border-border">
+          <Button size="sm" className="flex-1" disabled={capacity === 0} onClick={() => onAdmit(ids)}>
+            Впустить всех
+          </Button>
+          <Button size="sm" variant="outline" className="flex-1" onClick={() => onDeny(ids)}>
+            Отклонить всех
+          </Button>
+        </div>
+      )}
+
+      {capacity < queue.length && (
+        <p className="px-4 pb-4 text-xs text-muted-foreground">
+          {capacity === 0 ? "Комната заполнена" : `Свободных мест: ${capacity}`}
+        </p>
+      )}
+    </Card>
+  );
+};
+
+export default LobbyPanel;
@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from "react";
+import { LOCAL_SPEAKER, type AudioLevelMonitor } from "@/lib/audio-levels";
+
+interface MicLevelMeterProps {
+  monitor: AudioLevelMonitor;
+}
+
+// Thin bar along the bottom of the mic button; subscribes on its own so only it re-renders
+// at meter rate
+const MicLevelMeter = ({ monitor }: MicLevelMeterProps) => {
+  const level = useSyncExternalStore(monitor.subscribe, () => monitor.getSnapshot().levels[LOCAL_SPEAKER] ?? 0);
+
+  return (
+    <span className="absolute inset-x-3 bottom-2 h-1 rounded-full bg-foreground/15 overflow-hidden" aria-hidden>
+      <span className="block h-full bg-primary transition-[width] duration-100" style={{ width: `${level * 100}%` }} />
+    </span>
+  );
+};
+
+export default MicLevelMeter;
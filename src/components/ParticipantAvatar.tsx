@@ -0,0 +1,28 @@
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { initials, type ParticipantProfile } from "@/lib/participant";
+import { cn } from "@/lib/utils";
+
+const SIZES = {
+  sm: "h-5 w-5 text-[10px]",
+  md: "h-8 w-8 text-xs",
+  lg: "h-20 w-20 text-2xl",
+};
+
+interface ParticipantAvatarProps {
+  profile: ParticipantProfile;
+  size?: keyof typeof SIZES;
+  className?: string;
+}
+
+const ParticipantAvatar = ({ profile, size = "md", className }: ParticipantAvatarProps) => (
+  <Avatar className={cn(SIZES[size], className)} title={profile.name}>
+    <AvatarFallback
+      className="text-white font-medium"
+      style={{ backgroundColor: `hsl(${profile.hue} 55% 45%)` }}
+    >
+      {initials(profile.name)}
+    </AvatarFallback>
+  </Avatar>
+);
+
+export default ParticipantAvatar;
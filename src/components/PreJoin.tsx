@@ -0,0 +1,255 @@
+import { useEffect, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Mic, MicOff, Video, VideoOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMediaDevices } from "@/hooks/use-media-devices";
+import { useAudioLevel } from "@/hooks/use-audio-level";
+import { applyAudioOutput, getLocalMedia, type MediaDeviceSelection } from "@/lib/media";
+
+const NAME_STORAGE_KEY = "display-name";
+
+const preJoinSchema = z.object({
+  name: z.string().trim().min(1, "Введите имя").max(40, "Не длиннее 40 символов"),
+  cameraOn: z.boolean(),
+  micOn: z.boolean(),
+  videoInputId: z.string().optional(),
+  audioInputId: z.string().optional(),
+  audioOutputId: z.string().optional(),
+});
+
+type PreJoinValues = z.infer<typeof preJoinSchema>;
+
+export interface JoinSettings {
+  name: string;
+  cameraOn: boolean;
+  micOn: boolean;
+  devices: MediaDeviceSelection;
+}
+
+interface PreJoinProps {
+  onJoin: (settings: JoinSettings) => void;
+}
+
+interface DeviceSelectProps {
+  label: string;
+  value: string | undefined;
+  devices: MediaDeviceInfo[];
+  onChange: (deviceId: string) => void;
+}
+
+const DeviceSelect = ({ label, value, devices, onChange }: DeviceSelectProps) => (
+  <FormItem>
+    <FormLabel>{label}</FormLabel>
+    <Select value={value} onValueChange={onChange} disabled={devices.length === 0}>
+      <FormControl>
+        <SelectTrigger>
+          <SelectValue placeholder={devices.length === 0 ? "Нет устройств" : "По умолчанию"} />
+        </SelectTrigger>
+      </FormControl>
+      <SelectContent>
+        {devices.map((device, index) => (
+          <SelectItem key={device.deviceId} value={device.deviceId}>
+            {device.label || `${label} ${index + 1}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </FormItem>
+);
+
+const PreJoin = ({ onJoin }: PreJoinProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [mediaError, setMediaError] = useState(false);
+  const devices = useMediaDevices(stream !== null);
+
+  const form = useForm<PreJoinValues>({
+    resolver: zodResolver(preJoinSchema),
+    defaultValues: {
+      name: localStorage.getItem(NAME_STORAGE_KEY) ?? "",
+      cameraOn: true,
+      micOn: true,
+    },
+  });
+  const [cameraOn, micOn, videoInputId, audioInputId, audioOutputId] = form.watch([
+    "cameraOn",
+    "micOn",
+    "videoInputId",
+    "audioInputId",
+    "audioOutputId",
+  ]);
+  const level = useAudioLevel(micOn ? stream : null);
+
+  // Preview with the selected devices; re-acquired whenever the selection changes
+  useEffect(() => {
+    let cancelled = false;
+    let acquired: MediaStream | null = null;
+
+    getLocalMedia({ videoInputId, audioInputId })
+      .then((media) => {
+        if (cancelled) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        acquired = media;
+        setMediaError(false);
+        setStream(media);
+      })
+      .catch((error) => {
+        console.error("❌ Preview failed:", error);
+        if (!cancelled) {
+          setMediaError(true);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      acquired?.getTracks().forEach((track) => track.stop());
+    };
+  }, [videoInputId, audioInputId]);
+
+  useEffect(() => {
+    if (videoRef.current && videoRef.current.srcObject !== stream) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  useEffect(() => {
+    stream?.getVideoTracks().forEach((track) => {
+      track.enabled = cameraOn;
+    });
+    stream?.getAudioTracks().forEach((track) => {
+      track.enabled = micOn;
+    });
+  }, [stream, cameraOn, micOn]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      applyAudioOutput(videoRef.current, audioOutputId);
+    }
+  }, [audioOutputId]);
+
+  const handleSubmit = (values: PreJoinValues) => {
+    localStorage.setItem(NAME_STORAGE_KEY, values.name);
+    onJoin({
+      name: values.name,
+      cameraOn: values.cameraOn,
+      micOn: values.micOn,
+      devices: {
+        videoInputId: values.videoInputId,
+        audioInputId: values.audioInputId,
+        audioOutputId: values.audioOutputId,
+      },
+    });
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto grid gap-6 lg:grid-cols-[3fr_2fr] items-start">
+      <div className="space-y-3">
+        <Card className="relative bg-secondary border-border overflow-hidden aspect-video">
+          <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover -scale-x-100" />
+          {(!cameraOn || mediaError) && (
+            <div className="absolute inset-0 flex items-center justify-center bg-secondary">
+              <p className="text-muted-foreground font-medium">
+                {mediaError ? "Нет доступа к камере или микрофону" : "Камера выключена"}
+              </p>
+            </div>
+          )}
+        </Card>
+        <div className="flex items-center gap-3">
+          {micOn ? <Mic className="w-4 h-4 text-muted-foreground" /> : <MicOff className="w-4 h-4 text-muted-foreground" />}
+          <Progress value={level * 100} className="h-2" aria-label="Уровень микрофона" />
+        </div>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ваше имя</FormLabel>
+                <FormControl>
+                  <Input placeholder="Как к вам обращаться" autoFocus {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="videoInputId"
+            render={({ field }) => (
+              <DeviceSelect label="Камера" value={field.value} devices={devices.videoInputs} onChange={field.onChange} />
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="audioInputId"
+            render={({ field }) => (
+              <DeviceSelect label="Микрофон" value={field.value} devices={devices.audioInputs} onChange={field.onChange} />
+            )}
+          />
+          {devices.audioOutputs.length > 0 && (
+            <FormField
+              control={form.control}
+              name="audioOutputId"
+              render={({ field }) => (
+                <DeviceSelect label="Динамики" value={field.value} devices={devices.audioOutputs} onChange={field.onChange} />
+              )}
+            />
+          )}
+
+          <div className="flex flex-wrap gap-6">
+            <FormField
+              control={form.control}
+              name="cameraOn"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel className="flex items-center gap-1.5">
+                    {field.value ? <Video className="w-4 h-4" /> : <VideoOff className="w-4 h-4" />}
+                    Камера
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="micOn"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel className="flex items-center gap-1.5">
+                    {field.value ? <Mic className="w-4 h-4" /> : <MicOff className="w-4 h-4" />}
+                    Микрофон
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <Button type="submit" size="lg" className="w-full">
+            Присоединиться
+          </Button>
+        </form>
+      </Form>
+    </div>
+  );
+};
+
+export default PreJoin;
@@ -0,0 +1,33 @@
+import { Card } from "@/components/ui/card";
+import type { RaisedHand } from "@/lib/reactions";
+import ParticipantAvatar from "./ParticipantAvatar";
+
+interface RaisedHandsPanelProps {
+  hands: RaisedHand[];
+}
+
+const formatRaisedTime = (at: string) =>
+  new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+// Who wants to speak, first raised first
+const RaisedHandsPanel = ({ hands }: RaisedHandsPanelProps) => (
+  <Card className="w-full lg:w-80 shrink-0 flex flex-col border-border">
+    <div className="flex items-center gap-2 p-4 border-b border-border">
+      <span aria-hidden>✋</span>
+      <h2 className="font-semibold text-foreground">Поднятые руки</h2>
+      <span className="text-sm text-muted-foreground">({hands.length})</span>
+    </div>
+    <ol className="divide-y divide-border">
+      {hands.map((hand, index) => (
+        <li key={hand.id} className="flex items-center gap-3 p-4">
+          <span className="w-4 text-sm text-muted-foreground">{index + 1}</span>
+          <ParticipantAvatar profile={hand.profile} />
+          <span className="flex-1 font-medium text-foreground truncate">{hand.profile.name}</span>
+          <span className="text-xs text-muted-foreground shrink-0">{formatRaisedTime(hand.at)}</span>
+        </li>
+      ))}
+    </ol>
+  </Card>
+);
+
+export default RaisedHandsPanel;
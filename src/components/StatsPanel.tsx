@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { CallStatsSample, ConnectionType } from "@/lib/call-stats";
+
+export interface PeerStats {
+  id: string;
+  name: string;
+  samples: CallStatsSample[];
+}
+
+interface StatsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  peers: PeerStats[];
+}
+
+const CONNECTION_TYPES: Record<ConnectionType, string> = {
+  host: "Напрямую (host)",
+  srflx: "Через NAT (srflx)",
+  relay: "Через TURN (relay)",
+};
+
+const bitrateConfig = {
+  sendBitrate: { label: "Отправка", color: "hsl(var(--primary))" },
+  receiveBitrate: { label: "Приём", color: "#10b981" },
+} satisfies ChartConfig;
+
+const lossConfig = {
+  packetLoss: { label: "Потери", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const latencyConfig = {
+  rtt: { label: "RTT", color: "hsl(var(--primary))" },
+  jitter: { label: "Джиттер", color: "#f59e0b" },
+} satisfies ChartConfig;
+
+interface StatsChartProps {
+  title: string;
+  unit: string;
+  config: ChartConfig;
+  samples: CallStatsSample[];
+}
+
+const StatsChart = ({ title, unit, config, samples }: StatsChartProps) => (
+  <div className="space-y-2">
+    <h3 className="text-sm font-medium text-foreground">
+      {title}, <span className="text-muted-foreground font-normal">{unit}</span>
+    </h3>
+    <ChartContainer config={config} className="aspect-[2/1] w-full">
+      <LineChart data={samples} margin={{ top: 4, right: 8, bottom: 0, left: -16 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="at" tickFormatter={(at: number) => format(at, "HH:mm:ss")} minTickGap={48} tickLine={false} />
+        <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={(_, [item]) => format(item?.payload.at ?? 0, "HH:mm:ss")} />}
+        />
+        {Object.keys(config).length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+        {Object.keys(config).map((key) => (
+          <Line
+            key={key}
+            dataKey={key}
+            type="monotone"
+            stroke={`var(--color-${key})`}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+            connectNulls
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  </div>
+);
+
+const Summary = ({ sample }: { sample: CallStatsSample | undefined }) => {
+  const rows: Array<[string, string]> = [
+    ["Соединение", sample?.connectionType ? CONNECTION_TYPES[sample.connectionType] : "—"],
+    ["Кодеки", sample?.codecs.length ? sample.codecs.join(", ") : "—"],
+    ["Разрешение", sample?.resolution ?? "—"],
+    ["Кадров в секунду", sample?.framesPerSecond != null ? String(sample.framesPerSecond) : "—"],
+    ["Отправка / приём", sample ? `${sample.sendBitrate} / ${sample.receiveBitrate} кбит/с` : "—"],
+    ["Потери пакетов", sample ? `${sample.packetLoss}%` : "—"],
+    ["RTT / джиттер", sample ? `${sample.rtt ?? "—"} / ${sample.jitter ?? "—"} мс` : "—"],
+  ];
+
+  return (
+    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+      {rows.map(([label, value]) => (
+        <div key={label} className="contents">
+          <dt className="text-muted-foreground">{label}</dt>
+          <dd className="text-foreground text-right tabular-nums">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+const PeerStatsView = ({ samples }: { samples: CallStatsSample[] }) => (
+  <div className="space-y-6">
+    <Summary sample={samples[samples.length - 1]} />
+    <StatsChart title="Битрейт" unit="кбит/с" config={bitrateConfig} samples={samples} />
+    <StatsChart title="Потери пакетов" unit="%" config={lossConfig} samples={samples} />
+    <StatsChart title="Задержка" unit="мс" config={latencyConfig} samples={samples} />
+  </div>
+);
+
+// Live connection quality per participant, for figuring out why a call is choppy
+const StatsPanel = ({ open, onOpenChange, peers }: StatsPanelProps) => {
+  const [selected, setSelected] = useState<string | null>(null);
+  // Falls back to the first peer when the selected one leaves
+  const current = peers.some((peer) => peer.id === selected) ? selected! : peers[0]?.id;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col gap-4 w-full sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Качество связи</SheetTitle>
+          <SheetDescription>Обновляется каждую секунду, графики за последнюю минуту</SheetDescription>
+        </SheetHeader>
+  
+        {peers.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Нет подключённых участников</p>
+        ) : (
+          <Tabs value={current} onValueChange={setSelected} className="flex-1 flex flex-col min-h-0">
+            {peers.length > 1 && (
+              <TabsList className="w-full justify-start overflow-x-auto">
+                {peers.map((peer) => (
+                  <TabsTrigger key={peer.id} value={peer.id} className="truncate">
+                    {peer.name}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            )}
+            <ScrollArea className="flex-1 -mx-2">
+              {peers.map((peer) => (
+                <TabsContent key={peer.id} value={peer.id} className="px-2">
+                  <PeerStatsView samples={peer.samples} />
+                </TabsContent>
+              ))}
+            </ScrollArea>
+          </Tabs>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default StatsPanel;
@@ -1,8 +1,53 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-import JoinRequestDialog from "./JoinRequestDialog";
+import { useChat } from "@/hooks/use-chat";
+import { useCallStats } from "@/hooks/use-call-stats";
+import {
+  createSignalingTransport,
+  deriveSigningKey,
+  SignalingChannel,
+  SignalingError,
+  type AddressedMessage,
+  type PresenceState,
+  type SignalingEventMap,
+} from "@/lib/signaling";
+import { PeerSession, type NegotiationMessage } from "@/lib/webrtc/peer-session";
+import { BitrateController } from "@/lib/webrtc/bitrate-controller";
+import { getIceServers } from "@/lib/webrtc/ice-servers";
+import { deriveMediaKey, MediaEncryption } from "@/lib/e2ee";
+import { admissionSchema, getHostSigningKey, HostVerifier, signAsHost, type Admission } from "@/lib/host";
+import { CallStateMachine, canRetryPeer, isInCall, MAX_PEER_RETRIES, type CallState } from "@/lib/call-state";
+import { audioConstraints, getLocalMedia, videoConstraints, type MediaDeviceSelection } from "@/lib/media";
+import {
+  createProfile,
+  profileFromMeta,
+  profileOf,
+  UNKNOWN_PARTICIPANT,
+  type ParticipantProfile,
+} from "@/lib/participant";
+import { cn } from "@/lib/utils";
+import { lobbyQueue, queuePosition, type Knock, type LobbyEntry } from "@/lib/lobby";
+import { createChatMessage, parseChatMessage, serializeChatMessage } from "@/lib/chat";
+import { FileTransferChannel, hashFile, MAX_FILE_SIZE, type FileTransfer } from "@/lib/file-transfer";
+import { CallRecorder, recordingFileName } from "@/lib/recording";
+import {
+  handRaisedAt,
+  raisedHands,
+  REACTION_DURATION_MS,
+  type RaisedHand,
+  type Reaction,
+  type ReactionBurst,
+} from "@/lib/reactions";
+import RaisedHandsPanel from "./RaisedHandsPanel";
+import { BackgroundProcessor, NO_BACKGROUND_EFFECT, type BackgroundEffect } from "@/lib/video-effects";
+import { LOCAL_SPEAKER, type AudioLevelMonitor } from "@/lib/audio-levels";
+import { AudioProcessor, DEFAULT_AUDIO_SETTINGS, isProcessingActive, microphoneModeConstraints, type AudioSettings } from "@/lib/audio-processing";
+import ChatPanel from "./ChatPanel";
+import StatsPanel from "./StatsPanel";
+import LobbyPanel from "./LobbyPanel";
+import LobbyMessageForm from "./LobbyMessageForm";
+import VideoTile from "./VideoTile";
 import { useNavigate } from "react-router-dom";
 import {
   AlertDialog,
@@ -15,97 +60,208 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-type ConnectionStatus = 
-  | "initializing"
-  | "waiting_for_participant"
-  | "requesting_approval"
-  | "signaling"
-  | "connecting"
-  | "connected"
-  | "disconnected"
-  | "failed";
+interface RemotePeer {
+  id: string;
+  stream: MediaStream | null;
+  profile: ParticipantProfile;
+  /** Sending a screen instead of the camera */
+  presenting: boolean;
+  /** The chat data channel to this peer is open */
+  chatOpen: boolean;
+  /** Recording the call on their side */
+  recording: boolean;
+  handRaised: boolean;
+  /** Our video to them is paused because the link cannot carry it, see BitrateController */
+  videoPaused: boolean;
+  /** Their video to us is paused for the same reason, as announced in their presence */
+  remoteVideoPaused: boolean;
+}
+
+// While sharing, the screen takes the camera's sender; the camera track is kept aside for restore
+interface ScreenShare {
+  camera: MediaStreamTrack | null;
+  screen: MediaStreamTrack;
+  audio: MediaStreamTrack | null;
+}
+
+// While a background effect is on, the processed track stands in for the camera everywhere
+interface ActiveBackground {
+  processor: BackgroundProcessor;
+  camera: MediaStreamTrack;
+}
+
+// Same for the microphone while the audio processing chain is on
+interface ActiveAudioProcessing {
+  processor: AudioProcessor;
+  microphone: MediaStreamTrack;
+}
+
+// Full mesh: every participant uploads its media once per remote peer
+const MAX_PARTICIPANTS = 6;
+
+// ICE servers are fetched per call, see getIceServers
+const RTC_CONFIGURATION: Omit<RTCConfiguration, 'iceServers'> = {
+  // Increased pool size for faster connection establishment
+  iceCandidatePoolSize: 20,
+  // Try all connection types (direct P2P and relay through TURN)
+  iceTransportPolicy: 'all',
+  // Bundle all media on single connection for better NAT traversal
+  bundlePolicy: 'max-bundle',
+  // Multiplex RTP and RTCP on single port for better firewall traversal
+  rtcpMuxPolicy: 'require',
+};
+
+// Join decisions are signed with the host key; guests ignore any they cannot verify
+const sendJoinDecision = async (
+  channel: SignalingChannel,
+  signingKey: CryptoKey,
+  roomId: string,
+  event: 'join_approved' | 'join_rejected',
+  joinerId: string,
+  hostId: string,
+  reason?: 'rejected' | 'full',
+) => {
+  const proof = await signAsHost(signingKey, roomId, [event, joinerId, hostId]);
+  if (event === 'join_approved') {
+    await channel.send(event, { joinerId, hostId, proof });
+  } else {
+    await channel.send(event, { joinerId, hostId, reason, proof });
+  }
+};
+
+// Negotiation held per sender until its admission is verified
+const MAX_PENDING_NEGOTIATION = 50;
+
+const gridColumns = (tiles: number) => {
+  if (tiles <= 1) return "grid-cols-1";
+  if (tiles <= 4) return "grid-cols-1 md:grid-cols-2";
+  return "grid-cols-2 md:grid-cols-3";
+};
 
 interface VideoCallProps {
   roomId: string;
+  /** Secret from the link fragment; signs every signaling message of the room */
+  roomKey: string;
+  /** Public key from the link fragment; the host's signatures are checked against it */
+  hostKey: string;
+  /** Shown to the host while knocking and to the other participants */
+  displayName: string;
+  /** Capture and playback devices; changes are applied live by swapping tracks */
+  devices?: MediaDeviceSelection;
+  /** End-to-end encrypt media with a key derived from `roomKey` */
+  e2ee?: boolean;
   isCameraOn: boolean;
   isMicOn: boolean;
+  isScreenSharing?: boolean;
+  /** Sharing stopped on its own (browser "Stop sharing" bar) or could not start */
+  onScreenShareEnd?: () => void;
+  isChatOpen?: boolean;
+  onChatOpenChange?: (open: boolean) => void;
+  /** Chat messages from others that arrived while the chat was closed */
+  onUnreadChange?: (count: number) => void;
+  /** Connection quality panel; stats are only collected while it is open */
+  isStatsOpen?: boolean;
+  onStatsOpenChange?: (open: boolean) => void;
+  /** Record the call locally; the other participants are told through presence */
+  isRecording?: boolean;
+  /** Recording could not start */
+  onRecordingEnd?: () => void;
+  /** Latest reaction picked locally; each new object is sent once */
+  reaction?: ReactionBurst | null;
+  isHandRaised?: boolean;
+  /** Background blur or replacement applied to the camera before it is sent */
+  backgroundEffect?: BackgroundEffect;
+  /** The background effect could not start */
+  onBackgroundEffectError?: () => void;
+  /** Processing of the outgoing microphone and music mode */
+  audioSettings?: AudioSettings;
+  /** The audio processing chain could not start */
+  onAudioProcessingError?: () => void;
+  /** Fed with the local microphone and every peer connection while the call is mounted */
+  audioLevels: AudioLevelMonitor;
   onConnectionChange: (connected: boolean) => void;
-  onConnectionStateChange?: (state: RTCPeerConnectionState) => void;
+  onCallStateChange?: (state: CallState) => void;
   onCallDurationChange?: (duration: number) => void;
 }
 
-const VideoCall = ({ roomId, isCameraOn, isMicOn, onConnectionChange, onConnectionStateChange, onCallDurationChange }: VideoCallProps) => {
-  const localVideoRef = useRef<HTMLVideoElement>(null);
-  const remoteVideoRef = useRef<HTMLVideoElement>(null);
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
+const VideoCall = ({ roomId, roomKey, hostKey, displayName, devices, e2ee = false, isCameraOn, isMicOn, isScreenSharing = false, onScreenShareEnd, isChatOpen = false, onChatOpenChange, onUnreadChange, isStatsOpen = false, onStatsOpenChange, isRecording = false, onRecordingEnd, reaction, isHandRaised = false, backgroundEffect = NO_BACKGROUND_EFFECT, onBackgroundEffectError, audioSettings = DEFAULT_AUDIO_SETTINGS, onAudioProcessingError, audioLevels, onConnectionChange, onCallStateChange, onCallDurationChange }: VideoCallProps) => {
+  const sessionsRef = useRef(new Map<string, PeerSession>());
+  const bitrateControllersRef = useRef(new Map<string, BitrateController>());
   const localStreamRef = useRef<MediaStream | null>(null);
-  const channelRef = useRef<any>(null);
-  const isOrganizerRef = useRef(false);
+  const channelRef = useRef<SignalingChannel | null>(null);
+  const isHostRef = useRef(false);
   const isApprovedRef = useRef(false);
+  // Only in the browser that created the room
+  const hostSigningKeyRef = useRef<CryptoKey | null>(null);
+  const clientIdRef = useRef<string | null>(null);
   const { toast } = useToast();
   const navigate = useNavigate();
-  const [isRemoteConnected, setIsRemoteConnected] = useState(false);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remotePeers, setRemotePeers] = useState<Record<string, RemotePeer>>({});
+  const localProfile = useMemo(() => createProfile(displayName), [displayName]);
   const [isMediaReady, setIsMediaReady] = useState(false);
-  const [showJoinRequest, setShowJoinRequest] = useState(false);
-  const [pendingJoinerId, setPendingJoinerId] = useState<string | null>(null);
-  const [userDisconnected, setUserDisconnected] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>("initializing");
+  const { messages: chatMessages, unread, addMessage } = useChat(roomId, isChatOpen);
+  const stats = useCallStats(() => [...sessionsRef.current].map(([id, session]) => [id, session.pc]), isStatsOpen);
+  const fileChannelsRef = useRef(new Map<string, FileTransferChannel>());
+  const [transfers, setTransfers] = useState<Record<string, FileTransfer>>({});
+  const transfersRef = useRef(transfers);
+  transfersRef.current = transfers;
+  // Host: who is knocking and how many more people fit; guest: own place in the queue
+  const [lobby, setLobby] = useState<LobbyEntry[]>([]);
+  const [capacity, setCapacity] = useState(MAX_PARTICIPANTS - 1);
+  const [lobbyPosition, setLobbyPosition] = useState<number | null>(null);
+  const knockRef = useRef<Knock | null>(null);
+  const retrackPresenceRef = useRef<(() => Promise<void>) | null>(null);
+  const presentingRef = useRef(false);
+  const recordingRef = useRef(false);
+  const recorderRef = useRef<CallRecorder | null>(null);
+  const handRaisedAtRef = useRef<string | null>(null);
+  // Floating reactions by tile ("local" for our own)
+  const [reactions, setReactions] = useState<Record<string, ReactionBurst[]>>({});
+  const [hands, setHands] = useState<RaisedHand[]>([]);
+  // Guests the host already admitted or denied, hidden until their presence catches up
+  const decidedRef = useRef(new Map<string, 'admitted' | 'denied'>());
+  const [machine] = useState(() => new CallStateMachine());
+  const callState = useSyncExternalStore(machine.subscribe, machine.getSnapshot);
+  const speaking = useSyncExternalStore(audioLevels.subscribe, () => audioLevels.getSnapshot().speaking);
   const [callDuration, setCallDuration] = useState(0);
   const [showTimeWarning, setShowTimeWarning] = useState(false);
   const [maxCallDuration, setMaxCallDuration] = useState(1800); // 30 минут в секундах
-  const retryCountRef = useRef(0);
-  const maxRetries = 3;
   const callTimerRef = useRef<NodeJS.Timeout | null>(null);
   const warningShownRef = useRef(false);
 
+  const peers = Object.values(remotePeers);
+  const inCall = isInCall(callState.phase);
+  const hasRemoteMedia = peers.some((peer) => peer.stream !== null);
+
+  // Devices the current local tracks were captured from
+  const capturedDevicesRef = useRef<MediaDeviceSelection>(devices ?? {});
+  const screenShareRef = useRef<ScreenShare | null>(null);
+  const onScreenShareEndRef = useRef(onScreenShareEnd);
+  const onRecordingEndRef = useRef(onRecordingEnd);
+  const backgroundRef = useRef<ActiveBackground | null>(null);
+  const backgroundEffectRef = useRef(backgroundEffect);
+  const onBackgroundEffectErrorRef = useRef(onBackgroundEffectError);
+  const audioProcessingRef = useRef<ActiveAudioProcessing | null>(null);
+  const audioSettingsRef = useRef(audioSettings);
+  const onAudioProcessingErrorRef = useRef(onAudioProcessingError);
+
   // Initialize media stream
   useEffect(() => {
     console.log('🎥 Initializing media stream...');
-    setConnectionStatus("initializing");
-    
+
     const initMediaStream = async () => {
       try {
-        const constraints = {
-          video: {
-            width: { ideal: 1280, max: 1920 },
-            height: { ideal: 720, max: 1080 },
-            frameRate: { ideal: 30, max: 30 },
-            facingMode: "user"
-          },
-          audio: {
-            echoCancellation: true,
-            noiseSuppression: true,
-            autoGainControl: true,
-            sampleRate: 48000
-          }
-        };
+        const stream = await getLocalMedia(capturedDevicesRef.current);
 
-        let stream;
-        try {
-          stream = await navigator.mediaDevices.getUserMedia(constraints);
-        } catch (error) {
-          console.warn('⚠️ Failed with ideal constraints, trying basic...', error);
-          stream = await navigator.mediaDevices.getUserMedia({
-            video: true,
-            audio: true,
-          });
-        }
-        
         console.log('✅ Media stream obtained');
         localStreamRef.current = stream;
-        if (localVideoRef.current) {
-          localVideoRef.current.srcObject = stream;
-          try {
-            await localVideoRef.current.play();
-          } catch (playError) {
-            console.warn('⚠️ Local video autoplay prevented:', playError);
-          }
-        }
+        setLocalStream(stream);
         setIsMediaReady(true);
-        setConnectionStatus("waiting_for_participant");
+        machine.send({ type: 'MEDIA_READY' });
       } catch (error) {
         console.error("❌ Error accessing media devices:", error);
-        setConnectionStatus("failed");
+        machine.send({ type: 'MEDIA_FAILED' });
         toast({
           title: "Ошибка доступа к камере",
           description: "Не удалось получить доступ к камере или микрофону",
@@ -116,49 +272,574 @@ const VideoCall = ({ roomId, isCameraOn, isMicOn, onConnectionChange, onConnecti
 
     initMediaStream();
 
+    const sessions = sessionsRef.current;
     return () => {
       if (localStreamRef.current) {
         localStreamRef.current.getTracks().forEach(track => track.stop());
       }
-      if (peerConnectionRef.current) {
-        peerConnectionRef.current.close();
-      }
+      // The camera is outside the stream while a screen is shared or a background effect is on,
+      // and the microphone while its audio is processed
+      screenShareRef.current?.camera?.stop();
+      backgroundRef.current?.camera.stop();
+      audioProcessingRef.current?.microphone.stop();
+      sessions.forEach((session) => session.close());
+      sessions.clear();
     };
-  }, [toast]);
+  }, [machine, toast]);
 
-  // Control camera
+  // Control camera (also applied to a fresh stream, e.g. when joining with the camera off)
   useEffect(() => {
-    if (localStreamRef.current) {
-      const videoTrack = localStreamRef.current.getVideoTracks()[0];
+    if (localStream) {
+      const videoTrack = screenShareRef.current ? screenShareRef.current.camera : localStream.getVideoTracks()[0];
       if (videoTrack) {
         videoTrack.enabled = isCameraOn;
       }
+      if (backgroundRef.current) {
+        backgroundRef.current.camera.enabled = isCameraOn;
+      }
     }
-  }, [isCameraOn]);
+  }, [isCameraOn, localStream]);
 
-  // Control microphone
+  // Control microphone (shared tab audio is not affected)
   useEffect(() => {
-    if (localStreamRef.current) {
-      const audioTrack = localStreamRef.current.getAudioTracks()[0];
+    if (localStream) {
+      const audioTrack = localStream.getAudioTracks().find((track) => track !== screenShareRef.current?.audio);
       if (audioTrack) {
         audioTrack.enabled = isMicOn;
       }
+      if (audioProcessingRef.current) {
+        audioProcessingRef.current.microphone.enabled = isMicOn;
+      }
+    }
+  }, [isMicOn, localStream]);
+
+  // Speaking indicators: remote levels come from the sessions' stats, ours from whatever
+  // microphone track is currently sent (processed or not)
+  useEffect(() => {
+    audioLevels.start(() => [...sessionsRef.current].map(([id, session]) => [id, session.pc]));
+    return () => audioLevels.stop();
+  }, [audioLevels]);
+
+  useEffect(() => {
+    const microphone = localStream?.getAudioTracks().find((track) => track !== screenShareRef.current?.audio);
+    audioLevels.setLocalTrack(microphone ?? null);
+  }, [audioLevels, localStream]);
+
+  // The track straight from the device, wherever it currently is: in the stream, or aside
+  // behind a background effect, audio processing or a shared screen
+  const capturedTrack = useCallback((kind: 'video' | 'audio') => {
+    const stream = localStreamRef.current;
+    const share = screenShareRef.current;
+    if (kind === 'video') {
+      return backgroundRef.current?.camera ?? (share ? share.camera : stream?.getVideoTracks()[0]) ?? null;
+    }
+    return audioProcessingRef.current?.microphone
+      ?? stream?.getAudioTracks().find((track) => track !== share?.audio)
+      ?? null;
+  }, []);
+
+  // Unplugging the device in use ends its track. With a device picked, the selection falls back
+  // to the default and the switch below follows; with the default in use nothing else changes,
+  // so the switch is triggered from here to capture the new default.
+  const [lostDevices, setLostDevices] = useState(0);
+  useEffect(() => {
+    const tracks = [capturedTrack('video'), capturedTrack('audio')].filter((track): track is MediaStreamTrack => !!track);
+    const handleEnded = (event: Event) => {
+      console.warn('⚠️ Capture device lost:', (event.target as MediaStreamTrack).label);
+      setLostDevices((count) => count + 1);
+    };
+    tracks.forEach((track) => track.addEventListener('ended', handleEnded));
+    return () => tracks.forEach((track) => track.removeEventListener('ended', handleEnded));
+  }, [localStream, capturedTrack]);
+
+  // Switch camera/microphone mid-call: capture the new device and swap the sent track in place
+  const videoInputId = devices?.videoInputId;
+  const audioInputId = devices?.audioInputId;
+  useEffect(() => {
+    const stream = localStreamRef.current;
+    if (!stream) {
+      return;
+    }
+    const captured = capturedDevicesRef.current;
+    const wanted: MediaDeviceSelection = { videoInputId, audioInputId };
+    const needsCapture = (kind: 'video' | 'audio') =>
+      (kind === 'video' ? captured.videoInputId !== videoInputId : captured.audioInputId !== audioInputId) ||
+      capturedTrack(kind)?.readyState === 'ended';
+    const kinds = (['video', 'audio'] as const).filter(needsCapture);
+    if (kinds.length === 0) {
+      return;
+    }
+    let cancelled = false;
+
+    const switchDevices = async () => {
+      for (const kind of kinds) {
+        // Only once the new device is in use: a failed or cancelled switch is tried again on the next change
+        const markCaptured = () => {
+          capturedDevicesRef.current = kind === 'video'
+            ? { ...capturedDevicesRef.current, videoInputId }
+            : { ...capturedDevicesRef.current, audioInputId };
+        };
+        try {
+          const media = await navigator.mediaDevices.getUserMedia(
+            kind === 'video'
+              ? { video: videoConstraints(wanted) }
+              : { audio: { ...audioConstraints(wanted), ...microphoneModeConstraints(audioSettingsRef.current.musicMode) } },
+          );
+          const [track] = kind === 'video' ? media.getVideoTracks() : media.getAudioTracks();
+          if (cancelled || localStreamRef.current !== stream) {
+            track.stop();
+            continue;
+          }
+          const background = backgroundRef.current;
+          if (kind === 'video' && background) {
+            // The processed track stays on the wire; only its input changes
+            track.enabled = background.camera.enabled;
+            background.processor.setSource(track);
+            background.camera.stop();
+            background.camera = track;
+            markCaptured();
+            console.log('🎛️ Switched video to', track.label, '(background effect)');
+            continue;
+          }
+          const processing = audioProcessingRef.current;
+          if (kind === 'audio' && processing) {
+            track.enabled = processing.microphone.enabled;
+            processing.processor.setSource(track);
+            processing.microphone.stop();
+            processing.microphone = track;
+            markCaptured();
+            console.log('🎛️ Switched audio to', track.label, '(processed)');
+            continue;
+          }
+          const share = screenShareRef.current;
+          const previous = kind === 'video'
+            ? (share ? share.camera : stream.getVideoTracks()[0])
+            : stream.getAudioTracks().find((candidate) => candidate !== share?.audio);
+          track.enabled = previous?.enabled ?? true;
+          if (kind === 'video' && share) {
+            // The screen is on the wire; the new camera takes over once sharing stops
+            previous?.stop();
+            share.camera = track;
+            markCaptured();
+            continue;
+          }
+          await Promise.all([...sessionsRef.current.values()].map((session) => session.replaceTrack(track, previous)));
+          markCaptured();
+          if (previous) {
+            stream.removeTrack(previous);
+            previous.stop();
+          }
+          stream.addTrack(track);
+          console.log(`🎛️ Switched ${kind} to`, track.label);
+        } catch (error) {
+          console.error(`❌ Failed to switch ${kind} device:`, error);
+          toast({
+            title: "Не удалось переключить устройство",
+            description: kind === 'video' ? "Камера недоступна" : "Микрофон недоступен",
+            variant: "destructive",
+          });
+        }
+      }
+      if (!cancelled) {
+        // New stream object so the local preview picks up the swapped tracks
+        setLocalStream(new MediaStream(stream.getTracks()));
+      }
+    };
+
+    switchDevices();
+    return () => {
+      cancelled = true;
+    };
+  }, [videoInputId, audioInputId, lostDevices, capturedTrack, toast]);
+
+  useEffect(() => {
+    onScreenShareEndRef.current = onScreenShareEnd;
+  }, [onScreenShareEnd]);
+
+  useEffect(() => {
+    onRecordingEndRef.current = onRecordingEnd;
+  }, [onRecordingEnd]);
+
+  useEffect(() => {
+    onBackgroundEffectErrorRef.current = onBackgroundEffectError;
+  }, [onBackgroundEffectError]);
+
+  useEffect(() => {
+    onAudioProcessingErrorRef.current = onAudioProcessingError;
+  }, [onAudioProcessingError]);
+
+  // Encodings depend on the track's contentHint, so every video swap on the senders sets them again
+  const refreshBitrates = useCallback(() => {
+    bitrateControllersRef.current.forEach((bitrate) => {
+      bitrate.refresh().catch((error) => console.warn('⚠️ Failed to refresh video encodings:', error));
+    });
+  }, []);
+
+  // Puts `next` wherever `previous` currently is: on the senders and in the local stream, or
+  // aside while a screen is shared (the camera only)
+  const swapLocalTrack = useCallback(async (previous: MediaStreamTrack, next: MediaStreamTrack) => {
+    const share = screenShareRef.current;
+    if (share && next.kind === 'video') {
+      if (share.camera === previous) {
+        share.camera = next;
+      }
+      return;
+    }
+    const stream = localStreamRef.current;
+    if (!stream) {
+      return;
     }
-  }, [isMicOn]);
+    // The stream first, synchronously, so effects running right after a cleanup see the new track
+    stream.removeTrack(previous);
+    stream.addTrack(next);
+    setLocalStream(new MediaStream(stream.getTracks()));
+    await Promise.all([...sessionsRef.current.values()].map((session) => session.replaceTrack(next, previous)));
+    if (next.kind === 'video') {
+      refreshBitrates();
+    }
+  }, [refreshBitrates]);
+
+  // Background effects: a processor takes the camera and its output replaces the camera track
+  // once the model is loaded. Changing the effect while one is on only reconfigures it.
+  const hasBackgroundEffect = backgroundEffect.type !== 'none';
+  useEffect(() => {
+    backgroundEffectRef.current = backgroundEffect;
+    backgroundRef.current?.processor.setEffect(backgroundEffect);
+  }, [backgroundEffect]);
 
-  // Call timer - starts when connected
   useEffect(() => {
-    if (connectionStatus === 'connected') {
+    const stream = localStreamRef.current;
+    const camera = screenShareRef.current ? screenShareRef.current.camera : stream?.getVideoTracks()[0];
+    if (!hasBackgroundEffect || !isMediaReady || !camera) {
+      return;
+    }
+
+    let cancelled = false;
+    const processor = new BackgroundProcessor(camera, backgroundEffectRef.current);
+    processor.track.enabled = camera.enabled;
+    const background: ActiveBackground = { processor, camera };
+    backgroundRef.current = background;
+    let applied = false;
+
+    processor.ready
+      .then(async () => {
+        if (cancelled) {
+          return;
+        }
+        // The camera may have been switched while the model was loading
+        applied = true;
+        await swapLocalTrack(background.camera, processor.track);
+        console.log('🪄 Background effect on');
+      })
+      .catch((error) => {
+        console.error('❌ Failed to start the background effect:', error);
+        if (cancelled) {
+          return;
+        }
+        backgroundRef.current = null;
+        processor.close();
+        toast({
+          title: "Не удалось включить эффект фона",
+          description: "Модель сегментации не загрузилась",
+          variant: "destructive",
+        });
+        onBackgroundEffectErrorRef.current?.();
+      });
+
+    return () => {
+      cancelled = true;
+      if (backgroundRef.current === background) {
+        backgroundRef.current = null;
+      }
+      if (applied) {
+        swapLocalTrack(processor.track, background.camera);
+        console.log('🪄 Background effect off');
+      } else if (background.camera !== camera) {
+        // Switched devices while the model was loading; the stream still holds the old camera
+        swapLocalTrack(camera, background.camera);
+      }
+      processor.close();
+    };
+  }, [hasBackgroundEffect, isMediaReady, swapLocalTrack, toast]);
+
+  // Audio processing: same idea for the microphone. Gain, gate and filter changes only
+  // reconfigure the running chain.
+  const processingActive = isProcessingActive(audioSettings);
+  useEffect(() => {
+    audioSettingsRef.current = audioSettings;
+    audioProcessingRef.current?.processor.setSettings(audioSettings);
+  }, [audioSettings]);
+
+  useEffect(() => {
+    const microphone = localStreamRef.current?.getAudioTracks().find((track) => track !== screenShareRef.current?.audio);
+    if (!processingActive || !isMediaReady || !microphone) {
+      return;
+    }
+
+    let cancelled = false;
+    const processor = new AudioProcessor(microphone, audioSettingsRef.current);
+    processor.track.enabled = microphone.enabled;
+    const processing: ActiveAudioProcessing = { processor, microphone };
+    audioProcessingRef.current = processing;
+    let applied = false;
+
+    processor.ready
+      .then(async () => {
+        if (cancelled) {
+          return;
+        }
+        applied = true;
+        await swapLocalTrack(processing.microphone, processor.track);
+        console.log('🎚️ Audio processing on');
+      })
+      .catch((error) => {
+        console.error('❌ Failed to start audio processing:', error);
+        if (cancelled) {
+          return;
+        }
+        audioProcessingRef.current = null;
+        processor.close();
+        toast({
+          title: "Не удалось включить обработку звука",
+          description: "Браузер не поддерживает нужные возможности Web Audio",
+          variant: "destructive",
+        });
+        onAudioProcessingErrorRef.current?.();
+      });
+
+    return () => {
+      cancelled = true;
+      if (audioProcessingRef.current === processing) {
+        audioProcessingRef.current = null;
+      }
+      if (applied) {
+        swapLocalTrack(processor.track, processing.microphone);
+        console.log('🎚️ Audio processing off');
+      } else if (processing.microphone !== microphone) {
+        swapLocalTrack(microphone, processing.microphone);
+      }
+      processor.close();
+    };
+  }, [processingActive, isMediaReady, swapLocalTrack, toast]);
+
+  // Music mode: the browser's voice processing off on the microphone itself, and Opus
+  // renegotiated for stereo at a high bitrate with every peer
+  const musicMode = audioSettings.musicMode;
+  useEffect(() => {
+    const microphone = localStreamRef.current?.getAudioTracks().find((track) => track !== screenShareRef.current?.audio);
+    if (!isMediaReady || !microphone) {
+      return;
+    }
+    microphone.contentHint = musicMode ? 'music' : 'speech';
+    microphone
+      .applyConstraints({ ...audioConstraints(capturedDevicesRef.current), ...microphoneModeConstraints(musicMode) })
+      .catch((error) => console.warn('⚠️ Failed to apply microphone constraints:', error));
+    sessionsRef.current.forEach((session) => session.setAudioProfile(musicMode ? 'music' : 'voice'));
+  }, [musicMode, isMediaReady]);
+
+  // Screen sharing: the screen replaces the camera on every sender (no renegotiation); tab audio,
+  // where the browser offers it, goes out as an extra track. Turning the prop off, or the
+  // browser's own "Stop sharing" bar, puts the camera back.
+  useEffect(() => {
+    const stream = localStreamRef.current;
+    if (!isScreenSharing || !stream) {
+      return;
+    }
+    let stopped = false;
+
+    const start = async () => {
+      try {
+        const display = await navigator.mediaDevices.getDisplayMedia({
+          video: { frameRate: { ideal: 15, max: 30 } },
+          audio: true,
+        });
+        const [screen] = display.getVideoTracks();
+        const [audio = null] = display.getAudioTracks();
+        if (stopped) {
+          display.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        // Keep text sharp rather than motion smooth: most shares are code
+        screen.contentHint = 'detail';
+        screen.addEventListener('ended', () => onScreenShareEndRef.current?.());
+
+        const camera = stream.getVideoTracks()[0] ?? null;
+        screenShareRef.current = { camera, screen, audio };
+        const sessions = [...sessionsRef.current.values()];
+        await Promise.all(sessions.map((session) => session.replaceTrack(screen, camera ?? undefined)));
+        refreshBitrates();
+        if (camera) {
+          stream.removeTrack(camera);
+        }
+        stream.addTrack(screen);
+        if (audio) {
+          stream.addTrack(audio);
+          sessions.forEach((session) => session.addTrack(audio, stream));
+        }
+        console.log('🖥️ Screen sharing started', audio ? 'with tab audio' : '');
+        setLocalStream(new MediaStream(stream.getTracks()));
+        presentingRef.current = true;
+        retrackPresenceRef.current?.();
+      } catch (error) {
+        console.warn('⚠️ Screen sharing did not start:', error);
+        if (!(error instanceof DOMException && error.name === 'NotAllowedError')) {
+          toast({
+            title: "Не удалось начать демонстрацию",
+            description: "Браузер не дал доступ к экрану",
+            variant: "destructive",
+          });
+        }
+        onScreenShareEndRef.current?.();
+      }
+    };
+
+    const stop = async () => {
+      const share = screenShareRef.current;
+      if (!share) {
+        return;
+      }
+      screenShareRef.current = null;
+      const sessions = [...sessionsRef.current.values()];
+      if (share.camera) {
+        await Promise.all(sessions.map((session) => session.replaceTrack(share.camera!, share.screen)));
+        refreshBitrates();
+      }
+      stream.removeTrack(share.screen);
+      share.screen.stop();
+      if (share.camera) {
+        stream.addTrack(share.camera);
+      }
+      if (share.audio) {
+        sessions.forEach((session) => session.removeTrack(share.audio!));
+        stream.removeTrack(share.audio);
+        share.audio.stop();
+      }
+      console.log('🖥️ Screen sharing stopped, camera restored');
+      setLocalStream(new MediaStream(stream.getTracks()));
+      presentingRef.current = false;
+      retrackPresenceRef.current?.();
+    };
+
+    start();
+    return () => {
+      stopped = true;
+      stop();
+    };
+  }, [isScreenSharing, refreshBitrates, toast]);
+
+  // Local recording; the file is downloaded when it stops, including on hang-up
+  useEffect(() => {
+    if (!isRecording) {
+      return;
+    }
+
+    let recorder: CallRecorder;
+    try {
+      recorder = new CallRecorder();
+      recorder.start();
+    } catch (error) {
+      console.error('❌ Failed to start recording:', error);
+      toast({
+        title: "Не удалось начать запись",
+        description: "Браузер не поддерживает запись звонка",
+        variant: "destructive",
+      });
+      onRecordingEndRef.current?.();
+      return;
+    }
+    const startedAt = new Date();
+    recorderRef.current = recorder;
+    recordingRef.current = true;
+    retrackPresenceRef.current?.();
+
+    return () => {
+      recorderRef.current = null;
+      recordingRef.current = false;
+      retrackPresenceRef.current?.();
+      recorder.stop().then((blob) => {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = recordingFileName(roomId, startedAt);
+        link.click();
+        // Give the download time to start before releasing the blob
+        setTimeout(() => URL.revokeObjectURL(url), 60_000);
+        toast({
+          title: "Запись сохранена",
+          description: link.download,
+        });
+      });
+    };
+  }, [isRecording, roomId, toast]);
+
+  // Keep the recording's tiles and audio mix in step with who is in the call
+  useEffect(() => {
+    recorderRef.current?.setSources([
+      { id: 'local', stream: localStream, label: `${localProfile.name} (вы)` },
+      ...Object.values(remotePeers).map((peer) => ({ id: peer.id, stream: peer.stream, label: peer.profile.name })),
+    ]);
+  }, [isRecording, localStream, localProfile, remotePeers]);
+
+  // Downloads are object URLs; release them with the call
+  useEffect(() => () => {
+    Object.values(transfersRef.current).forEach((transfer) => {
+      if (transfer.url) {
+        URL.revokeObjectURL(transfer.url);
+      }
+    });
+  }, []);
+
+  const showReaction = useCallback((tileId: string, emoji: Reaction) => {
+    const burst = { id: Date.now() + Math.random(), emoji };
+    setReactions((prev) => ({ ...prev, [tileId]: [...(prev[tileId] ?? []), burst] }));
+    setTimeout(() => {
+      setReactions((prev) => ({ ...prev, [tileId]: (prev[tileId] ?? []).filter((other) => other !== burst) }));
+    }, REACTION_DURATION_MS);
+  }, []);
+
+  useEffect(() => {
+    if (!reaction) {
+      return;
+    }
+    showReaction('local', reaction.emoji);
+    const clientId = clientIdRef.current;
+    if (channelRef.current && clientId && isApprovedRef.current) {
+      channelRef.current.send('reaction', { from: clientId, emoji: reaction.emoji });
+    }
+  }, [reaction, showReaction]);
+
+  // A raised hand stays up until lowered, across reconnects
+  useEffect(() => {
+    handRaisedAtRef.current = isHandRaised ? new Date().toISOString() : null;
+    retrackPresenceRef.current?.();
+  }, [isHandRaised]);
+
+  // Report the call state to the parent
+  useEffect(() => {
+    onCallStateChange?.(callState);
+  }, [callState, onCallStateChange]);
+
+  useEffect(() => {
+    onUnreadChange?.(unread);
+  }, [unread, onUnreadChange]);
+
+  useEffect(() => {
+    onConnectionChange(hasRemoteMedia);
+  }, [hasRemoteMedia, onConnectionChange]);
+
+  // Call timer - starts when connected and keeps running through reconnects
+  useEffect(() => {
+    if (inCall) {
       console.log('⏱️ Starting call timer');
-      
+
       // Reset timer on connection
       setCallDuration(0);
       warningShownRef.current = false;
-      
+
       callTimerRef.current = setInterval(() => {
         setCallDuration(prev => {
           const newDuration = prev + 1;
-          
+
           // Show warning 5 minutes before end
           const timeRemaining = maxCallDuration - newDuration;
           if (timeRemaining === 300 && !warningShownRef.current) {
@@ -166,10 +847,11 @@ const VideoCall = ({ roomId, isCameraOn, isMicOn, onConnectionChange, onConnecti
             setShowTimeWarning(true);
             warningShownRef.current = true;
           }
-          
+
           // Auto-disconnect after max duration
           if (newDuration >= maxCallDuration) {
             console.log('⏱️ Max call duration reached');
+            machine.send({ type: 'HANG_UP', reason: 'max_duration' });
             toast({
               title: "Время звонка истекло",
               description: "Максимальная продолжительность звонка истекла",
@@ -177,7 +859,7 @@ const VideoCall = ({ roomId, isCameraOn, isMicOn, onConnectionChange, onConnecti
             navigate('/');
             return prev;
           }
-          
+
           return newDuration;
         });
       }, 1000);
@@ -195,7 +877,7 @@ const VideoCall = ({ roomId, isCameraOn, isMicOn, onConnectionChange, onConnecti
         callTimerRef.current = null;
       }
     };
-  }, [connectionStatus, navigate, toast, maxCallDuration]);
+  }, [inCall, machine, navigate, toast, maxCallDuration]);
 
   // Notify parent component of call duration changes
   useEffect(() => {
@@ -204,753 +886,683 @@ const VideoCall = ({ roomId, isCameraOn, isMicOn, onConnectionChange, onConnecti
     }
   }, [callDuration, onCallDurationChange]);
 
-  // WebRTC setup with Supabase Realtime for signaling
+  // WebRTC mesh over the pluggable signaling transport: one PeerSession per approved participant
   useEffect(() => {
     if (!isMediaReady || !localStreamRef.current) {
       console.log('⏳ Waiting for media stream...');
       return;
     }
 
-    const setupWebRTC = async () => {
-      const clientId = Math.random().toString(36).substring(7);
-      console.log('🚀 Client ID:', clientId, 'Room:', roomId);
-      
-      const peerConnection = new RTCPeerConnection({
-        iceServers: [
-          // Multiple STUN servers for better NAT traversal
-          { urls: "stun:stun.l.google.com:19302" },
-          { urls: "stun:stun1.l.google.com:19302" },
-          { urls: "stun:stun2.l.google.com:19302" },
-          { urls: "stun:stun3.l.google.com:19302" },
-          { urls: "stun:stun4.l.google.com:19302" },
-          
-          // Primary TURN servers (Metered)
-          {
-            urls: "turn:openrelay.metered.ca:80",
-            username: "openrelayproject",
-            credential: "openrelayproject",
-          },
-          {
-            urls: "turn:openrelay.metered.ca:443",
-            username: "openrelayproject",
-            credential: "openrelayproject",
-          },
-          {
-            urls: "turn:openrelay.metered.ca:443?transport=tcp",
-            username: "openrelayproject",
-            credential: "openrelayproject",
-          },
-          
-          // Backup TURN servers (Numb)
-          {
-            urls: "turn:numb.viagenie.ca",
-            username: "webrtc@live.com",
-            credential: "muazkh",
-          },
-          {
-            urls: "turn:numb.viagenie.ca:3478?transport=tcp",
-            username: "webrtc@live.com",
-            credential: "muazkh",
-          },
-          
-          // Additional backup TURN servers
-          {
-            urls: "turn:relay.metered.ca:80",
-            username: "85d76e46be6d5e65d6e85ba1",
-            credential: "tXUXVrMT8Rbr1w0N",
-          },
-          {
-            urls: "turn:relay.metered.ca:443",
-            username: "85d76e46be6d5e65d6e85ba1",
-            credential: "tXUXVrMT8Rbr1w0N",
-          },
-        ],
-        // Increased pool size for faster connection establishment
-        iceCandidatePoolSize: 20,
-        // Try all connection types (direct P2P and relay through TURN)
-        iceTransportPolicy: 'all',
-        // Bundle all media on single connection for better NAT traversal
-        bundlePolicy: 'max-bundle',
-        // Multiplex RTP and RTCP on single port for better firewall traversal
-        rtcpMuxPolicy: 'require',
+    const clientId = Math.random().toString(36).substring(7);
+    console.log('🚀 Client ID:', clientId, 'Room:', roomId);
+    clientIdRef.current = clientId;
+
+    // The role is settled in joinRoom, once the stored host key (if any) is loaded
+    isHostRef.current = false;
+    isApprovedRef.current = false;
+    const hostVerifier = new HostVerifier(roomId, hostKey);
+    // The host's signature over its own client id, published in presence
+    let hostProof: string | null = null;
+    // The host-signed approval of this guest, published in presence
+    let admission: Admission | null = null;
+    // Everyone whose presence proves they are in the call, as of the last sync
+    let members = new Set<string>();
+    // Peers our video is paused to, announced so their tiles can say why the picture stopped
+    const videoPausedTo = new Set<string>();
+    // Negotiation from people not verified yet (they saw their approval before we saw their
+    // presence), replayed in order once a sync settles who they are
+    const pendingNegotiation = new Map<string, NegotiationMessage[]>();
+
+    const transport = createSignalingTransport(roomId, clientId);
+    const channel = new SignalingChannel(transport, deriveSigningKey(roomId, roomKey));
+    const encryption = e2ee ? new MediaEncryption(deriveMediaKey(roomId, roomKey)) : undefined;
+    const sessions = sessionsRef.current;
+    const fileChannels = fileChannelsRef.current;
+    const reconnectTimers = new Map<string, ReturnType<typeof setTimeout>>();
+    const bitrateControllers = bitrateControllersRef.current;
+    const decided = decidedRef.current;
+    let disposed = false;
+    // Requested right away so the credentials are ready by the time the channel is joined
+    const iceServersReady = getIceServers();
+    let iceServers: RTCIceServer[] = [];
+
+    const updatePeer = (remoteId: string, patch: Partial<RemotePeer>) => {
+      setRemotePeers((prev) => {
+        const current = prev[remoteId] ?? { id: remoteId, stream: null, profile: UNKNOWN_PARTICIPANT, presenting: false, chatOpen: false, recording: false, handRaised: false, videoPaused: false, remoteVideoPaused: false };
+        return { ...prev, [remoteId]: { ...current, ...patch } };
+      });
+    };
+
+    const updateTransfer = (transfer: FileTransfer) => {
+      setTransfers((prev) => ({ ...prev, [transfer.id]: transfer }));
+      if (transfer.direction === 'incoming' && transfer.status === 'pending') {
+        toast({
+          title: "Входящий файл",
+          description: `${transfer.peerName} отправляет «${transfer.name}». Откройте чат, чтобы принять`,
+        });
+      }
+    };
+
+    const removePeer = (remoteId: string) => {
+      setRemotePeers((prev) => {
+        if (!(remoteId in prev)) {
+          return prev;
+        }
+        const next = { ...prev };
+        delete next[remoteId];
+        return next;
       });
-      peerConnectionRef.current = peerConnection;
+    };
+
+    const presenceMeta = () => ({
+      online_at: new Date().toISOString(),
+      approved: isApprovedRef.current,
+      role: isHostRef.current ? 'host' : 'guest',
+      hostProof,
+      admission,
+      videoPausedFor: [...videoPausedTo],
+      profile: localProfile,
+      presenting: presentingRef.current,
+      recording: recordingRef.current,
+      handRaisedAt: handRaisedAtRef.current,
+      knock: isApprovedRef.current ? null : knockRef.current,
+    });
+    retrackPresenceRef.current = () => channel.presence.track(presenceMeta());
+
+    // Host side of the waiting room, recomputed from presence on every sync
+    const announced = new Set<string>();
+    const syncLobby = (state: PresenceState) => {
+      decided.forEach((decision, id) => {
+        if (!(id in state) || (decision === 'admitted' && members.has(id))) {
+          decided.delete(id);
+        }
+      });
+
+      const admittedPending = [...decided.values()].filter((decision) => decision === 'admitted').length;
+      const free = Math.max(MAX_PARTICIPANTS - members.size - admittedPending, 0);
+      const queue = lobbyQueue(state).filter((entry) => !decided.has(entry.id));
+
+      if (free === 0) {
+        queue.forEach((entry) => {
+          console.log('🚫 Room is full, rejecting:', entry.id);
+          decided.set(entry.id, 'denied');
+          void sendJoinDecision(channel, hostSigningKeyRef.current!, roomId, 'join_rejected', entry.id, clientId, 'full');
+        });
+        setLobby([]);
+      } else {
+        const fresh = queue.filter((entry) => !announced.has(entry.id));
+        fresh.forEach((entry) => announced.add(entry.id));
+        if (fresh.length > 0) {
+          console.log('🔔 Organizer: new knocks in the lobby:', fresh.map((entry) => entry.id));
+          toast({
+            title: "Зал ожидания",
+            description: fresh.length === 1
+              ? `${fresh[0].profile.name} просит войти`
+              : `Просят войти: ${fresh.length}`,
+          });
+        }
+        setLobby(queue);
+      }
+      setCapacity(free);
+    };
+
+    // Recording is announced to everyone, lobby included, so nobody is recorded unknowingly
+    let recorders = new Set<string>();
+    const announceRecorders = (state: PresenceState) => {
+      const current = new Set(Object.keys(state).filter((key) =>
+        key !== clientId && state[key].some((meta) => meta.recording === true)));
+      const fresh = [...current].filter((key) => !recorders.has(key));
+      recorders = current;
+      if (fresh.length > 0) {
+        toast({
+          title: "Идёт запись звонка",
+          description: `Записывает: ${fresh.map((key) => profileOf(state, key).name).join(', ')}`,
+        });
+      }
+    };
+
+    // Claims in presence only count with a signature by the host key: the host signs its own
+    // client id, admitted guests publish the approval the host signed for them
+    const isVerifiedHost = async (state: PresenceState, key: string) => {
+      const checks = await Promise.all((state[key] ?? []).map((meta) =>
+        meta.role === 'host' && hostVerifier.verify(['host', key], meta.hostProof)));
+      return checks.includes(true);
+    };
+
+    const isAdmittedGuest = async (state: PresenceState, key: string) => {
+      const checks = await Promise.all((state[key] ?? []).map((meta) => {
+        const parsed = admissionSchema.safeParse(meta.admission);
+        return parsed.success && hostVerifier.verify(['join_approved', key, parsed.data.hostId], parsed.data.proof);
+      }));
+      return checks.includes(true);
+    };
+
+    const sendSignal = (to: string) => (message: NegotiationMessage) => {
+      if (!('description' in message)) {
+        channel.send('ice_candidate', { candidate: message.candidate, from: clientId, to });
+        return;
+      }
+      const { type, sdp = '' } = message.description;
+      if (type === 'offer') {
+        channel.send('webrtc_offer', { description: { type, sdp }, from: clientId, to });
+      } else if (type === 'answer') {
+        channel.send('webrtc_answer', { description: { type, sdp }, from: clientId, to });
+      }
+    };
+
+    // Retries are budgeted by the state machine; returns false once the budget is spent
+    const scheduleIceRestart = (session: PeerSession, delay: number) => {
+      const remoteId = session.remoteId;
+      if (reconnectTimers.has(remoteId)) {
+        return true;
+      }
+      if (!canRetryPeer(machine.state, remoteId)) {
+        return false;
+      }
+      machine.send({ type: 'PEER_RETRY', peerId: remoteId });
+      const attempt = machine.state.peers[remoteId]?.retries;
+      console.log(`🔄 Attempting ICE restart with ${remoteId} (${attempt}/${MAX_PEER_RETRIES}) in ${delay}ms`);
 
-      // Add local tracks
-      localStreamRef.current?.getTracks().forEach(track => {
-        console.log('➕ Adding local track:', track.kind);
-        peerConnection.addTrack(track, localStreamRef.current!);
+      reconnectTimers.set(remoteId, setTimeout(async () => {
+        // The original credentials may have expired since the call started
+        iceServers = await getIceServers({ refresh: true });
+        reconnectTimers.delete(remoteId);
+        const state = session.pc.connectionState;
+        if (sessions.get(remoteId) === session && (state === 'disconnected' || state === 'failed')) {
+          session.restartIce(iceServers);
+        }
+      }, delay));
+      return true;
+    };
+
+    const closeSession = (remoteId: string) => {
+      clearTimeout(reconnectTimers.get(remoteId));
+      reconnectTimers.delete(remoteId);
+      fileChannels.get(remoteId)?.close();
+      fileChannels.delete(remoteId);
+      bitrateControllers.get(remoteId)?.stop();
+      bitrateControllers.delete(remoteId);
+      videoPausedTo.delete(remoteId);
+      sessions.get(remoteId)?.close();
+      sessions.delete(remoteId);
+      removePeer(remoteId);
+      machine.send({ type: 'PEER_REMOVED', peerId: remoteId });
+    };
+
+    const ensureSession = (remoteId: string) => {
+      const existing = sessions.get(remoteId);
+      if (existing) {
+        return existing;
+      }
+      if (sessions.size + 1 >= MAX_PARTICIPANTS) {
+        console.warn('⚠️ Mesh is full, not connecting to', remoteId);
+        return null;
+      }
+
+      const session = new PeerSession({
+        localId: clientId,
+        remoteId,
+        configuration: { ...RTC_CONFIGURATION, iceServers },
+        send: sendSignal(remoteId),
+        encryption,
+        audioProfile: audioSettingsRef.current.musicMode ? 'music' : 'voice',
+      });
+      sessions.set(remoteId, session);
+      const profile = profileOf(channel.presence.state(), remoteId);
+      fileChannels.set(remoteId, new FileTransferChannel(session.files, remoteId, profile.name, updateTransfer));
+      const bitrate = new BitrateController(session.pc, (videoPaused) => {
+        console.log(videoPaused ? '📶 Weak link, sending audio only to' : '📶 Video resumed to', remoteId);
+        updatePeer(remoteId, { videoPaused });
+        if (videoPaused) {
+          videoPausedTo.add(remoteId);
+        } else {
+          videoPausedTo.delete(remoteId);
+        }
+        void channel.presence.track(presenceMeta());
       });
+      bitrateControllers.set(remoteId, bitrate);
+      bitrate.start();
+      updatePeer(remoteId, { profile });
+      machine.send({ type: 'PEER_ADDED', peerId: remoteId });
+      const startedAt = performance.now();
+
+      const peerConnection = session.pc;
 
       // Handle remote stream
       peerConnection.ontrack = (event) => {
-        console.log('📹 Remote track received:', event.track.kind);
-        if (remoteVideoRef.current && event.streams[0]) {
-          remoteVideoRef.current.srcObject = event.streams[0];
-          
-          // Explicitly play remote video for Android compatibility
-          const playRemoteVideo = async () => {
-            try {
-              // Small delay to ensure stream is ready
-              await new Promise(resolve => setTimeout(resolve, 100));
-              if (remoteVideoRef.current) {
-                await remoteVideoRef.current.play();
-                console.log('✅ Remote video playing');
-              }
-            } catch (playError) {
-              console.warn('⚠️ Remote video autoplay prevented, will retry on user interaction:', playError);
-              // Add click handler to play on user interaction
-              const playOnInteraction = async () => {
-                try {
-                  await remoteVideoRef.current?.play();
-                  document.removeEventListener('click', playOnInteraction);
-                  document.removeEventListener('touchstart', playOnInteraction);
-                } catch (e) {
-                  console.error('Failed to play on interaction:', e);
-                }
-              };
-              document.addEventListener('click', playOnInteraction, { once: true });
-              document.addEventListener('touchstart', playOnInteraction, { once: true });
-            }
-          };
-          
-          playRemoteVideo();
-          setIsRemoteConnected(true);
-          onConnectionChange(true);
-          console.log('✅ Remote stream connected');
+        console.log('📹 Remote track received from', remoteId, event.track.kind);
+        if (event.streams[0]) {
+          updatePeer(remoteId, { stream: event.streams[0] });
         }
       };
 
       peerConnection.onconnectionstatechange = () => {
         const state = peerConnection.connectionState;
-        console.log('🔌 Connection state:', state);
-        
+        console.log('🔌 Connection state with', remoteId, state);
+
+        machine.send({ type: 'PEER_CONNECTION_CHANGED', peerId: remoteId, state });
+
         if (state === 'connected') {
-          setConnectionStatus('connected');
-          retryCountRef.current = 0;
-        } else if (state === 'connecting') {
-          setConnectionStatus('connecting');
+          console.log(`⚡ Connected to ${remoteId} in ${Math.round(performance.now() - startedAt)}ms`);
+          clearTimeout(reconnectTimers.get(remoteId));
+          reconnectTimers.delete(remoteId);
         } else if (state === 'disconnected') {
-          setConnectionStatus('disconnected');
-          setIsRemoteConnected(false);
-          // Attempt reconnection only if not already at max retries
-          if (retryCountRef.current < maxRetries && isOrganizerRef.current) {
-            retryCountRef.current++;
-            console.log(`🔄 Attempting reconnection (${retryCountRef.current}/${maxRetries})`);
-            
-            setTimeout(() => {
-              if (peerConnection.signalingState !== 'closed') {
-                console.log('🔄 Creating new offer for reconnection');
-                createOffer();
-              }
-            }, 2000 * retryCountRef.current);
-          }
-        } else if (state === 'failed') {
-          setConnectionStatus('failed');
-          setIsRemoteConnected(false);
-          
-          if (retryCountRef.current < maxRetries && isOrganizerRef.current) {
-            retryCountRef.current++;
-            console.log(`🔄 Connection failed, attempting recovery (${retryCountRef.current}/${maxRetries})`);
-            
-            setTimeout(() => {
-              if (peerConnection.signalingState !== 'closed') {
-                console.log('🔄 Restarting ICE and creating new offer');
-                peerConnection.restartIce();
-                createOffer();
-              }
-            }, 1000);
-          } else {
-            toast({
-              title: "Ошибка подключения",
-              description: "Не удалось установить соединение. Попробуйте перезагрузить страницу.",
-              variant: "destructive",
-            });
-          }
-        } else if (state === 'closed') {
-          console.log('🔌 Connection closed');
-          setConnectionStatus('disconnected');
-          setIsRemoteConnected(false);
-        }
-        
-        if (state) {
-          onConnectionStateChange?.(state);
+          // Give ICE a chance to recover on its own before restarting it
+          scheduleIceRestart(session, 2000 * ((machine.state.peers[remoteId]?.retries ?? 0) + 1));
+        } else if (state === 'failed' && !scheduleIceRestart(session, 1000)) {
+          machine.send({ type: 'PEER_GAVE_UP', peerId: remoteId });
+          toast({
+            title: "Ошибка подключения",
+            description: "Не удалось установить соединение с участником. Попробуйте перезагрузить страницу.",
+            variant: "destructive",
+          });
         }
       };
 
       peerConnection.oniceconnectionstatechange = () => {
-        const iceState = peerConnection.iceConnectionState;
-        console.log('❄️ ICE state:', iceState);
-        
-        if (iceState === 'checking') {
-          setConnectionStatus('connecting');
-        } else if (iceState === 'connected' || iceState === 'completed') {
-          setConnectionStatus('connected');
-          retryCountRef.current = 0;
-          console.log('✅ ICE connection established successfully');
-        } else if (iceState === 'failed') {
-          console.log('❌ ICE connection failed');
-          setConnectionStatus('failed');
-          setIsRemoteConnected(false);
-          
-          if (retryCountRef.current < maxRetries && isOrganizerRef.current) {
-            retryCountRef.current++;
-            console.log(`🔄 ICE failed, attempting restart (${retryCountRef.current}/${maxRetries})`);
-            
-            setTimeout(() => {
-              if (peerConnection.signalingState !== 'closed') {
-                peerConnection.restartIce();
-                createOffer();
-              }
-            }, 1000);
-          }
-        } else if (iceState === 'disconnected') {
-          console.log('⚠️ ICE disconnected');
-          setIsRemoteConnected(false);
-          setConnectionStatus('disconnected');
-        } else if (iceState === 'closed') {
-          console.log('❄️ ICE connection closed');
-          setIsRemoteConnected(false);
-        }
+        console.log('❄️ ICE state with', remoteId, peerConnection.iceConnectionState);
       };
 
-      let hasCreatedOffer = false;
-      let hasProcessedOffer = false;
-      const pendingIceCandidates: RTCIceCandidate[] = [];
-      let localIceCandidates: RTCIceCandidate[] = [];
-      let iceGatheringComplete = false;
-      let pendingOffer: any = null;
-      let offerSent = false;
-      let answerSent = false;
-
-      const createOffer = async () => {
-        if (hasCreatedOffer) {
-          console.log('⏭️ Offer already created');
-          return;
+      session.chat.onopen = () => {
+        console.log('💬 Chat channel open with', remoteId);
+        updatePeer(remoteId, { chatOpen: true });
+      };
+      session.chat.onclose = () => {
+        if (sessions.get(remoteId) === session) {
+          updatePeer(remoteId, { chatOpen: false });
         }
-        hasCreatedOffer = true;
-        setConnectionStatus('signaling');
-        
-        try {
-          console.log('📞 Creating offer');
-          
-          // Reset ICE candidates collection
-          localIceCandidates = [];
-          iceGatheringComplete = false;
-          
-          const offer = await peerConnection.createOffer({
-            offerToReceiveAudio: true,
-            offerToReceiveVideo: true,
-            iceRestart: retryCountRef.current > 0,
-          });
-          await peerConnection.setLocalDescription(offer);
-          
-          // Wait for ICE gathering to complete or timeout after 3 seconds
-          console.log('⏳ Waiting for ICE gathering...');
-          await Promise.race([
-            new Promise<void>((resolve) => {
-              if (iceGatheringComplete) {
-                resolve();
-              } else {
-                const checkInterval = setInterval(() => {
-                  if (iceGatheringComplete) {
-                    clearInterval(checkInterval);
-                    resolve();
-                  }
-                }, 100);
-              }
-            }),
-            new Promise<void>((resolve) => setTimeout(resolve, 3000))
-          ]);
-          
-          console.log(`📤 Broadcasting offer with ${localIceCandidates.length} ICE candidates`);
-          offerSent = true;
-          channel.send({
-            type: 'broadcast',
-            event: 'webrtc_offer',
-            payload: { 
-              offer: {
-                type: offer.type,
-                sdp: offer.sdp
-              },
-              candidates: localIceCandidates.map(c => c.toJSON()),
-              from: clientId 
-            }
-          });
-        } catch (error) {
-          console.error('❌ Error creating offer:', error);
-          hasCreatedOffer = false;
-          setConnectionStatus('failed');
-          
-          // Retry with exponential backoff
-          if (retryCountRef.current < maxRetries) {
-            const delay = 1000 * Math.pow(2, retryCountRef.current);
-            console.log(`🔄 Retrying offer in ${delay}ms`);
-            setTimeout(() => {
-              hasCreatedOffer = false;
-              createOffer();
-            }, delay);
-            retryCountRef.current++;
-          }
+      };
+      session.chat.onmessage = ({ data }) => {
+        const message = parseChatMessage(data);
+        if (message) {
+          addMessage(message);
         }
       };
 
-      // ICE candidate handler - collect and send candidates
-      peerConnection.onicecandidate = (event) => {
-        if (event.candidate) {
-          console.log('📦 ICE candidate gathered:', event.candidate.type);
-          localIceCandidates.push(event.candidate);
-          
-          // Send additional candidates after offer/answer is sent
-          if (offerSent || answerSent) {
-            console.log('📤 Sending additional ICE candidate');
-            channel.send({
-              type: 'broadcast',
-              event: 'ice_candidate',
-              payload: {
-                candidate: event.candidate.toJSON(),
-                from: clientId
-              }
-            });
-          }
-        } else {
-          console.log('✅ ICE gathering complete');
-          iceGatheringComplete = true;
+      session.addStream(localStreamRef.current!);
+      return session;
+    };
+
+    // Connect to every verified member we are not connected to yet
+    const syncSessions = () => {
+      if (!isApprovedRef.current) {
+        return;
+      }
+      members.forEach((key) => {
+        if (key !== clientId) {
+          ensureSession(key);
         }
-      };
+      });
+    };
 
-      const channel = supabase
-        .channel(`room:${roomId}`, {
-          config: {
-            presence: {
-              key: clientId,
-            },
-            broadcast: {
-              ack: true,
-            },
-          },
-        })
-        .on('presence', { event: 'sync' }, () => {
-          const state = channel.presenceState();
-          const participants = Object.keys(state);
-          console.log('👥 Participants:', participants.length);
-          
-          const sortedParticipants = participants.sort();
-          const isFirst = sortedParticipants[0] === clientId;
-          isOrganizerRef.current = isFirst;
-          
-          if (isFirst) {
-            isApprovedRef.current = true;
-            console.log('👑 ORGANIZER');
-          } else {
-            console.log('👤 JOINER - waiting for approval');
-            // Joiner should show that they're requesting approval
-            if (participants.length > 1) {
-              setConnectionStatus('requesting_approval');
-            }
-          }
-        })
-        .on('presence', { event: 'join' }, ({ key }) => {
-          console.log('👋 Participant joined:', key);
-          
-          if (key !== clientId) {
-            setUserDisconnected(false);
-            setIsRemoteConnected(false);
-            setConnectionStatus('waiting_for_participant');
-          }
-          
-          if (isOrganizerRef.current && key !== clientId) {
-            console.log('🔔 Organizer: showing approval dialog for joiner:', key);
-            setConnectionStatus('requesting_approval');
-            setPendingJoinerId(key);
-            setShowJoinRequest(true);
-          }
-        })
-        .on('presence', { event: 'leave' }, ({ key }) => {
-          console.log('👋 Participant left:', key);
-          
-          if (key !== clientId) {
-            setUserDisconnected(true);
-            toast({
-              title: "Пользователь покинул встречу",
-              description: "Собеседник отключился",
-            });
-          }
-        })
-        .on('broadcast', { event: 'join_approved' }, async ({ payload }) => {
-          console.log('✅ Join approval broadcast received. Joiner ID:', payload.joinerId, 'My ID:', clientId, 'Am I organizer?', isOrganizerRef.current);
-          
-          if (payload.joinerId === clientId) {
-            console.log('✅ I am the approved joiner, ready to receive offer');
-            isApprovedRef.current = true;
-            setConnectionStatus('signaling');
-            
-            toast({
-              title: "Подключение одобрено",
-              description: "Установка соединения...",
-            });
-            
-            // Process buffered offer if it exists
-            if (pendingOffer) {
-              console.log('📦 Processing buffered offer');
-              const bufferedOffer = pendingOffer;
-              pendingOffer = null;
-              
-              // Process the offer immediately
-              setTimeout(async () => {
-                if (!hasProcessedOffer) {
-                  hasProcessedOffer = true;
-                  setConnectionStatus('signaling');
-                  
-                  try {
-                    await peerConnection.setRemoteDescription(new RTCSessionDescription(bufferedOffer.offer));
-                    console.log('✅ Remote description set from buffered offer');
-                    
-                    // Add ICE candidates from offer
-                    if (bufferedOffer.candidates && bufferedOffer.candidates.length > 0) {
-                      console.log(`📦 Adding ${bufferedOffer.candidates.length} ICE candidates from buffered offer`);
-                      for (const candidate of bufferedOffer.candidates) {
-                        try {
-                          await peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
-                          console.log('✅ Added ICE candidate:', candidate.type);
-                        } catch (e) {
-                          console.warn('⚠️ ICE candidate error:', e);
-                        }
-                      }
-                    }
-                    
-                    setConnectionStatus('connecting');
-                    
-                    // Reset for answer
-                    localIceCandidates = [];
-                    iceGatheringComplete = false;
-                    
-                    const answer = await peerConnection.createAnswer();
-                    await peerConnection.setLocalDescription(answer);
-                    console.log('✅ Answer created from buffered offer');
-                    
-                    // Wait for ICE gathering
-                    console.log('⏳ Waiting for ICE gathering...');
-                    await Promise.race([
-                      new Promise<void>((resolve) => {
-                        if (iceGatheringComplete) {
-                          resolve();
-                        } else {
-                          const checkInterval = setInterval(() => {
-                            if (iceGatheringComplete) {
-                              clearInterval(checkInterval);
-                              resolve();
-                            }
-                          }, 100);
-                        }
-                      }),
-                      new Promise<void>((resolve) => setTimeout(resolve, 3000))
-                    ]);
-                    
-                    console.log(`📤 Sending answer with ${localIceCandidates.length} ICE candidates`);
-                    answerSent = true;
-                    channel.send({
-                      type: 'broadcast',
-                      event: 'webrtc_answer',
-                      payload: { 
-                        answer: {
-                          type: answer.type,
-                          sdp: answer.sdp
-                        },
-                        candidates: localIceCandidates.map(c => c.toJSON()),
-                        from: clientId 
-                      }
-                    });
-                  } catch (error) {
-                    console.error('❌ Buffered offer processing error:', error);
-                    hasProcessedOffer = false;
-                    setConnectionStatus('failed');
-                  }
-                }
-              }, 100);
-            } else {
-              // Send ready signal back to organizer
-              await channel.send({
-                type: 'broadcast',
-                event: 'joiner_ready',
-                payload: { joinerId: clientId }
-              });
-            }
-          }
-        })
-        .on('broadcast', { event: 'join_rejected' }, ({ payload }) => {
-          console.log('❌ Join rejected. Joiner ID:', payload.joinerId, 'My ID:', clientId);
-          
-          if (payload.joinerId === clientId) {
-            console.log('❌ My join was rejected');
-            toast({
-              title: "Подключение отклонено",
-              description: "Организатор отклонил ваш запрос на подключение",
-              variant: "destructive",
-            });
-            navigate('/');
-          }
-        })
-        .on('broadcast', { event: 'joiner_ready' }, async ({ payload }) => {
-          console.log('✅ Joiner ready signal received. Joiner ID:', payload.joinerId, 'My ID:', clientId, 'Am I organizer?', isOrganizerRef.current);
-          
-          if (isOrganizerRef.current && payload.joinerId !== clientId) {
-            console.log('👑 I am organizer, creating offer now after joiner confirmed ready');
-            // Small delay to ensure joiner is subscribed to all events
-            setTimeout(() => {
-              createOffer();
-            }, 500);
-          }
-        })
-        .on('broadcast', { event: 'webrtc_offer' }, async ({ payload }) => {
-          console.log('📨 Offer received. From:', payload.from, 'My ID:', clientId, 'Am I organizer?', isOrganizerRef.current, 'Approved?', isApprovedRef.current);
-          
-          if (payload.from === clientId) {
-            console.log('⏭️ Skipping my own offer');
-            return;
-          }
-          
-          if (isOrganizerRef.current) {
-            console.log('⏭️ Organizer does not process offers');
-            return;
-          }
-          
-          // If not approved yet, save the offer for later
-          if (!isApprovedRef.current) {
-            console.log('📦 Not approved yet, buffering offer');
-            pendingOffer = payload;
-            return;
-          }
-          
-          if (hasProcessedOffer) {
-            console.log('⏭️ Already processed an offer');
-            return;
-          }
-          
-          hasProcessedOffer = true;
-          setConnectionStatus('signaling');
-          
-          console.log('📨 Processing offer from organizer');
-          try {
-            await peerConnection.setRemoteDescription(new RTCSessionDescription(payload.offer));
-            console.log('✅ Remote description set from offer');
-            
-            // Add ICE candidates from offer
-            if (payload.candidates && payload.candidates.length > 0) {
-              console.log(`📦 Adding ${payload.candidates.length} ICE candidates from offer`);
-              for (const candidate of payload.candidates) {
-                try {
-                  await peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
-                  console.log('✅ Added ICE candidate:', candidate.type);
-                } catch (e) {
-                  console.warn('⚠️ ICE candidate error:', e);
-                }
-              }
-            }
-            
-            setConnectionStatus('connecting');
-            
-            // Reset for answer
-            localIceCandidates = [];
-            iceGatheringComplete = false;
-            
-            const answer = await peerConnection.createAnswer();
-            await peerConnection.setLocalDescription(answer);
-            console.log('✅ Answer created');
-            
-            // Wait for ICE gathering
-            console.log('⏳ Waiting for ICE gathering...');
-            await Promise.race([
-              new Promise<void>((resolve) => {
-                if (iceGatheringComplete) {
-                  resolve();
-                } else {
-                  const checkInterval = setInterval(() => {
-                    if (iceGatheringComplete) {
-                      clearInterval(checkInterval);
-                      resolve();
-                    }
-                  }, 100);
-                }
-              }),
-              new Promise<void>((resolve) => setTimeout(resolve, 3000))
-            ]);
-            
-            console.log(`📤 Sending answer with ${localIceCandidates.length} ICE candidates`);
-            answerSent = true;
-            channel.send({
-              type: 'broadcast',
-              event: 'webrtc_answer',
-              payload: { 
-                answer: {
-                  type: answer.type,
-                  sdp: answer.sdp
-                },
-                candidates: localIceCandidates.map(c => c.toJSON()),
-                from: clientId 
-              }
-            });
-          } catch (error) {
-            console.error('❌ Offer processing error:', error);
-            hasProcessedOffer = false;
-            setConnectionStatus('failed');
-          }
-        })
-        .on('broadcast', { event: 'webrtc_answer' }, async ({ payload }) => {
-          console.log('📨 Answer received. From:', payload.from, 'My ID:', clientId, 'Am I organizer?', isOrganizerRef.current);
-          
-          if (payload.from === clientId) {
-            console.log('⏭️ Skipping my own answer');
-            return;
-          }
-          
-          if (!isOrganizerRef.current) {
-            console.log('⏭️ Joiner does not process answers');
-            return;
-          }
-          
-          console.log('📨 Organizer processing answer from joiner');
-          setConnectionStatus('connecting');
-          
-          try {
-            await peerConnection.setRemoteDescription(new RTCSessionDescription(payload.answer));
-            console.log('✅ Answer processed, remote description set');
-            
-            // Add ICE candidates from answer
-            if (payload.candidates && payload.candidates.length > 0) {
-              console.log(`📦 Adding ${payload.candidates.length} ICE candidates from answer`);
-              for (const candidate of payload.candidates) {
-                try {
-                  await peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
-                  console.log('✅ Added ICE candidate:', candidate.type);
-                } catch (e) {
-                  console.warn('⚠️ ICE candidate error:', e);
-                }
-              }
-            }
-            
-            console.log('✅ Connection setup complete');
-          } catch (error) {
-            console.error('❌ Answer processing error:', error);
-            setConnectionStatus('failed');
-          }
-        })
-        .on('broadcast', { event: 'ice_candidate' }, async ({ payload }) => {
-          if (payload.from === clientId) {
-            return;
-          }
-          
-          console.log('📥 Received additional ICE candidate');
-          
-          try {
-            // Buffer if remote description not set yet
-            if (!peerConnection.remoteDescription) {
-              console.log('⏸️ Buffering ICE candidate (no remote description)');
-              pendingIceCandidates.push(new RTCIceCandidate(payload.candidate));
-              return;
-            }
-            
-            await peerConnection.addIceCandidate(new RTCIceCandidate(payload.candidate));
-            console.log('✅ Additional ICE candidate added');
-          } catch (error) {
-            console.error('❌ Error adding ICE candidate:', error);
-          }
-        })
-        .subscribe(async (status) => {
-          console.log('📡 Subscription status:', status);
-          if (status === 'SUBSCRIBED') {
-            channelRef.current = channel;
-            console.log('✅ Channel subscribed, tracking presence...');
-            await channel.track({ online_at: new Date().toISOString() });
-            console.log('✅ Presence tracked');
-            setConnectionStatus('waiting_for_participant');
-          } else if (status === 'CHANNEL_ERROR') {
-            console.error('❌ Channel error');
-            setConnectionStatus('failed');
-            toast({
-              title: "Ошибка подключения",
-              description: "Не удалось подключиться к каналу",
-              variant: "destructive",
-            });
-          } else if (status === 'TIMED_OUT') {
-            console.error('❌ Channel timed out');
-            setConnectionStatus('failed');
-            toast({
-              title: "Превышено время ожидания",
-              description: "Попробуйте перезагрузить страницу",
-              variant: "destructive",
-            });
+    const flushPendingNegotiation = (state: PresenceState) => {
+      pendingNegotiation.forEach((messages, from) => {
+        if (members.has(from)) {
+          pendingNegotiation.delete(from);
+          const session = ensureSession(from);
+          messages.forEach((message) => session?.handleMessage(message));
+        } else if (!(from in state)) {
+          pendingNegotiation.delete(from);
+        }
+      });
+    };
+
+    // Profiles, presenting, recording and raised hands live in presence; keep tiles in step with it
+    const syncPeerMeta = () => {
+      const state = channel.presence.state();
+      setRemotePeers((prev) => {
+        let changed = false;
+        const next = { ...prev };
+        Object.values(prev).forEach((peer) => {
+          const profile = profileFromMeta(state[peer.id]) ?? peer.profile;
+          const presenting = (state[peer.id] ?? []).some((meta) => meta.presenting === true);
+          const recording = (state[peer.id] ?? []).some((meta) => meta.recording === true);
+          const handRaised = handRaisedAt(state, peer.id) !== null;
+          const remoteVideoPaused = (state[peer.id] ?? []).some((meta) =>
+            Array.isArray(meta.videoPausedFor) && meta.videoPausedFor.includes(clientId));
+          if (
+            profile.name !== peer.profile.name ||
+            profile.hue !== peer.profile.hue ||
+            presenting !== peer.presenting ||
+            recording !== peer.recording ||
+            handRaised !== peer.handRaised ||
+            remoteVideoPaused !== peer.remoteVideoPaused
+          ) {
+            next[peer.id] = { ...peer, profile, presenting, recording, handRaised, remoteVideoPaused };
+            changed = true;
           }
         });
+        return changed ? next : prev;
+      });
+    };
 
-      return () => {
-        console.log('🧹 Cleanup');
-        if (callTimerRef.current) {
-          clearInterval(callTimerRef.current);
-        }
-        if (peerConnectionRef.current) {
-          peerConnectionRef.current.close();
-          peerConnectionRef.current = null;
-        }
-        if (channelRef.current) {
-          channelRef.current.unsubscribe();
-          channelRef.current = null;
-        }
-        if (localStreamRef.current) {
-          localStreamRef.current.getTracks().forEach(track => track.stop());
-          localStreamRef.current = null;
+    // Hands an addressed negotiation message to its session, if we accept it
+    const receiveNegotiation = (payload: AddressedMessage, message: NegotiationMessage) => {
+      if (payload.to !== clientId || payload.from === clientId) {
+        return;
+      }
+      if (!isApprovedRef.current) {
+        console.log('⏭️ Not approved yet, ignoring negotiation from', payload.from);
+        return;
+      }
+      if (!members.has(payload.from)) {
+        const pending = pendingNegotiation.get(payload.from) ?? [];
+        if (pending.length < MAX_PENDING_NEGOTIATION) {
+          pendingNegotiation.set(payload.from, [...pending, message]);
         }
-      };
+        return;
+      }
+      ensureSession(payload.from)?.handleMessage(message);
     };
 
-    setupWebRTC();
-  }, [roomId, onConnectionChange, onConnectionStateChange, isMediaReady, navigate, toast]);
-
-  const handleAcceptJoin = () => {
-    setShowJoinRequest(false);
-    
-    if (channelRef.current && pendingJoinerId) {
-      console.log('✅ Approving:', pendingJoinerId);
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'join_approved',
-        payload: { joinerId: pendingJoinerId }
+    const handlePresenceSync = async () => {
+      const state = channel.presence.state();
+      const participants = Object.keys(state);
+      console.log('👥 Participants:', participants.length);
+
+      const [hosts, admitted] = await Promise.all([
+        Promise.all(participants.map((key) => isVerifiedHost(state, key))),
+        Promise.all(participants.map((key) => isAdmittedGuest(state, key))),
+      ]);
+      if (disposed) {
+        return;
+      }
+      members = new Set(participants.filter((_, index) => hosts[index] || admitted[index]));
+
+      if (isHostRef.current) {
+        syncLobby(state);
+      } else if (!isApprovedRef.current) {
+        const hostPresent = participants.some((key, index) => key !== clientId && hosts[index]);
+        console.log(hostPresent ? '👤 JOINER - waiting for approval' : '👤 JOINER - waiting for host');
+        machine.send({ type: 'HOST_PRESENCE', present: hostPresent });
+        setLobbyPosition(queuePosition(lobbyQueue(state), clientId));
+      }
+
+      flushPendingNegotiation(state);
+      syncSessions();
+      syncPeerMeta();
+      announceRecorders(state);
+      setHands(raisedHands(state));
+    };
+
+    // Host proofs are verified asynchronously; syncs are still handled one at a time, in order
+    let presenceSync = Promise.resolve();
+    channel.presence.onSync(() => {
+      presenceSync = presenceSync.then(handlePresenceSync).catch((error) => {
+        console.error('❌ Presence sync failed:', error);
       });
-      
+    });
+
+    channel.presence.onJoin(({ key }) => {
+      console.log('👋 Participant joined:', key);
+    });
+
+    channel.presence.onLeave(({ key, meta }) => {
+      console.log('👋 Participant left:', key);
+
+      if (key === clientId) {
+        return;
+      }
+
+      if (sessions.has(key)) {
+        closeSession(key);
+        toast({
+          title: "Участник покинул встречу",
+          description: `${(profileFromMeta(meta) ?? UNKNOWN_PARTICIPANT).name} больше не в звонке`,
+        });
+      }
+    });
+
+    channel.on('join_approved', async (payload) => {
+      console.log('✅ Join approval broadcast received. Joiner ID:', payload.joinerId, 'My ID:', clientId);
+
+      if (payload.joinerId !== clientId || isApprovedRef.current) {
+        return;
+      }
+      if (!(await hostVerifier.verify(['join_approved', clientId, payload.hostId], payload.proof))) {
+        console.warn('⚠️ Ignoring approval not signed by the host, sent as', payload.hostId);
+        return;
+      }
+      if (disposed || isApprovedRef.current) {
+        return;
+      }
+
+      console.log('✅ I am the approved joiner, approved by', payload.hostId);
+      isApprovedRef.current = true;
+      admission = { hostId: payload.hostId, proof: payload.proof };
+      setLobbyPosition(null);
+      machine.send({ type: 'APPROVED' });
       toast({
-        title: "Подключение разрешено",
-        description: "Участник подключается",
+        title: "Подключение одобрено",
+        description: "Установка соединения...",
       });
+
+      // Everyone already in the call connects to us once they see the approved presence
+      await channel.presence.track(presenceMeta());
+      if (!disposed) {
+        syncSessions();
+      }
+    });
+
+    channel.on('join_rejected', async (payload) => {
+      console.log('❌ Join rejected. Joiner ID:', payload.joinerId, 'My ID:', clientId);
+
+      if (payload.joinerId !== clientId || isApprovedRef.current) {
+        return;
+      }
+      const signed = await hostVerifier.verify(['join_rejected', clientId, payload.hostId], payload.proof);
+      if (signed && !disposed && !isApprovedRef.current) {
+        console.log('❌ My join was rejected');
+        machine.send({ type: 'REJECTED', reason: payload.reason === 'full' ? 'room_full' : 'rejected' });
+        toast({
+          title: "Подключение отклонено",
+          description: payload.reason === 'full'
+            ? `В комнате уже ${MAX_PARTICIPANTS} участников`
+            : "Организатор отклонил ваш запрос на подключение",
+          variant: "destructive",
+        });
+        navigate('/');
+      }
+    });
+
+    const handleDescription = (payload: SignalingEventMap['webrtc_offer' | 'webrtc_answer']) => {
+      console.log(`📨 ${payload.description.type} received from`, payload.from);
+      // Validated by the protocol schema, which requires both type and sdp
+      receiveNegotiation(payload, { description: payload.description as RTCSessionDescriptionInit });
+    };
+    channel.on('webrtc_offer', handleDescription);
+    channel.on('webrtc_answer', handleDescription);
+
+    channel.on('ice_candidate', (payload) => {
+      receiveNegotiation(payload, { candidate: payload.candidate });
+    });
+
+    channel.on('reaction', (payload) => {
+      // Only from people in the call, and only once we are in it ourselves
+      if (payload.from !== clientId && isApprovedRef.current && members.has(payload.from)) {
+        showReaction(payload.from, payload.emoji as Reaction);
+      }
+    });
+
+    const joinRoom = async () => {
+      try {
+        // Only the browser that created the room holds the private host key
+        const hostSigningKey = await getHostSigningKey(roomId);
+        if (disposed) {
+          return;
+        }
+        hostSigningKeyRef.current = hostSigningKey;
+        isHostRef.current = hostSigningKey !== null;
+        isApprovedRef.current = hostSigningKey !== null;
+        // Guests knock as soon as they join; the host can be waiting for them already
+        knockRef.current = hostSigningKey ? null : { at: new Date().toISOString() };
+        if (hostSigningKey) {
+          hostProof = await signAsHost(hostSigningKey, roomId, ['host', clientId]);
+          console.log('👑 HOST');
+        }
+        iceServers = await iceServersReady;
+        await transport.join();
+        if (disposed) {
+          return;
+        }
+        channelRef.current = channel;
+        // Before anything else can arrive: the host connects to whoever the first presence sync
+        // shows, and peers added while the machine is still joining would be dropped
+        machine.send({ type: 'CHANNEL_JOINED', role: isHostRef.current ? 'host' : 'guest' });
+        console.log('✅ Channel subscribed, tracking presence...');
+        await channel.presence.track(presenceMeta());
+        console.log('✅ Presence tracked');
+      } catch (error) {
+        if (disposed) {
+          return;
+        }
+        if (error instanceof SignalingError && error.reason === 'timed_out') {
+          console.error('❌ Channel timed out');
+          machine.send({ type: 'CHANNEL_FAILED', reason: 'timed_out' });
+          toast({
+            title: "Превышено время ожидания",
+            description: "Попробуйте перезагрузить страницу",
+            variant: "destructive",
+          });
+        } else {
+          console.error('❌ Channel error', error);
+          machine.send({ type: 'CHANNEL_FAILED', reason: 'channel_error' });
+          toast({
+            title: "Ошибка подключения",
+            description: "Не удалось подключиться к каналу",
+            variant: "destructive",
+          });
+        }
+      }
+    };
+
+    joinRoom();
+
+    return () => {
+      console.log('🧹 Cleanup');
+      disposed = true;
+      reconnectTimers.forEach((timer) => clearTimeout(timer));
+      reconnectTimers.clear();
+      if (callTimerRef.current) {
+        clearInterval(callTimerRef.current);
+      }
+      fileChannels.forEach((files) => files.close());
+      fileChannels.clear();
+      bitrateControllers.forEach((bitrate) => bitrate.stop());
+      bitrateControllers.clear();
+      sessions.forEach((session) => session.close());
+      sessions.clear();
+      encryption?.close();
+      setRemotePeers({});
+      machine.send({ type: 'CHANNEL_LEFT' });
+      transport.leave();
+      channelRef.current = null;
+      retrackPresenceRef.current = null;
+      decided.clear();
+      setLobby([]);
+      setHands([]);
+      isApprovedRef.current = false;
+      isHostRef.current = false;
+      hostSigningKeyRef.current = null;
+    };
+  }, [roomId, roomKey, hostKey, localProfile, e2ee, isMediaReady, machine, navigate, toast, addMessage, showReaction]);
+
+  const lobbyName = (id: string) => (lobby.find((entry) => entry.id === id)?.profile ?? UNKNOWN_PARTICIPANT).name;
+
+  const handleAdmit = (ids: string[]) => {
+    const channel = channelRef.current;
+    const hostId = clientIdRef.current;
+    const signingKey = hostSigningKeyRef.current;
+    if (!channel || !hostId || !signingKey) {
+      return;
     }
-    setPendingJoinerId(null);
+    const admitted = ids.slice(0, capacity);
+    admitted.forEach((joinerId) => {
+      console.log('✅ Approving:', joinerId);
+      decidedRef.current.set(joinerId, 'admitted');
+      void sendJoinDecision(channel, signingKey, roomId, 'join_approved', joinerId, hostId);
+    });
+    setLobby((queue) => queue.filter((entry) => !admitted.includes(entry.id)));
+    setCapacity((free) => free - admitted.length);
+
+    toast({
+      title: "Подключение разрешено",
+      description: admitted.length === 1
+        ? `${lobbyName(admitted[0])} подключается`
+        : `Подключаются участники: ${admitted.length}`,
+    });
   };
 
-  const handleRejectJoin = () => {
-    setShowJoinRequest(false);
-    
-    if (channelRef.current && pendingJoinerId) {
-      console.log('❌ Rejecting:', pendingJoinerId);
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'join_rejected',
-        payload: { joinerId: pendingJoinerId }
-      });
-      
-      toast({
-        title: "Подключение отклонено",
-        description: "Запрос отклонен",
-      });
+  const handleDeny = (ids: string[]) => {
+    const channel = channelRef.current;
+    const hostId = clientIdRef.current;
+    const signingKey = hostSigningKeyRef.current;
+    if (!channel || !hostId || !signingKey) {
+      return;
+    }
+    ids.forEach((joinerId) => {
+      console.log('❌ Rejecting:', joinerId);
+      decidedRef.current.set(joinerId, 'denied');
+      void sendJoinDecision(channel, signingKey, roomId, 'join_rejected', joinerId, hostId, 'rejected');
+    });
+    setLobby((queue) => queue.filter((entry) => !ids.includes(entry.id)));
+
+    toast({
+      title: "Подключение отклонено",
+      description: ids.length === 1 ? `Запрос от ${lobbyName(ids[0])} отклонен` : `Отклонено запросов: ${ids.length}`,
+    });
+  };
+
+  // Keeps the original knock time, so adding a message does not cost the place in the queue
+  const handleKnockMessage = (message: string) => {
+    if (!knockRef.current) {
+      return;
     }
-    setPendingJoinerId(null);
+    knockRef.current = { ...knockRef.current, message: message || undefined };
+    retrackPresenceRef.current?.();
   };
 
-  // Format call duration as MM:SS
-  const formatCallDuration = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  const handleSendChat = (text: string) => {
+    const message = createChatMessage(text, localProfile);
+    const data = serializeChatMessage(message);
+    sessionsRef.current.forEach((session) => {
+      if (session.chat.readyState === 'open') {
+        session.chat.send(data);
+      }
+    });
+    addMessage(message);
+  };
+
+  const handleSendFiles = async (files: File[]) => {
+    for (const file of files) {
+      if (file.size > MAX_FILE_SIZE) {
+        toast({
+          title: "Файл слишком большой",
+          description: `«${file.name}» больше ${MAX_FILE_SIZE / 1024 / 1024} МБ`,
+          variant: "destructive",
+        });
+        continue;
+      }
+      try {
+        const sha256 = await hashFile(file);
+        fileChannelsRef.current.forEach((channel) => {
+          if (channel.isOpen) {
+            channel.offer(file, sha256);
+          }
+        });
+      } catch (error) {
+        console.error('❌ Failed to read file:', error);
+        toast({
+          title: "Не удалось прочитать файл",
+          description: file.name,
+          variant: "destructive",
+        });
+      }
+    }
   };
 
+  const fileChannelOf = (transfer: FileTransfer) => fileChannelsRef.current.get(transfer.peerId);
+
   // Handle extending call time
   const handleExtendTime = () => {
     setMaxCallDuration(prev => prev + 1800); // Add 30 more minutes
@@ -962,6 +1574,65 @@ const VideoCall = ({ roomId, isCameraOn, isMicOn, onConnectionChange, onConnecti
     });
   };
 
+  // A remote screen share takes the stage; everyone else moves to a strip below it
+  const presenter = peers.find((peer) => peer.presenting);
+  const others = peers.filter((peer) => peer !== presenter);
+  const tileCount = Math.max(peers.length, 1) + 1;
+  const recorders = peers.filter((peer) => peer.recording);
+  const inLobby = callState.phase === 'waiting_for_host' || callState.phase === 'requesting_approval';
+  const peerPhase = (peerId: string) => callState.peers[peerId]?.phase ?? 'signaling';
+
+  const renderPeerTile = (peer: RemotePeer, className?: string) => (
+    <VideoTile
+      key={peer.id}
+      stream={peer.stream}
+      profile={peer.profile}
+      label={peer.presenting ? `${peer.profile.name} — демонстрация экрана` : undefined}
+      fit={peer.presenting ? 'contain' : 'cover'}
+      audioOutputId={devices?.audioOutputId}
+      reactions={reactions[peer.id]}
+      handRaised={peer.handRaised}
+      speaking={speaking.includes(peer.id)}
+      className={className}
+    >
+      {(peerPhase(peer.id) !== 'connected' || !peer.stream) && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center bg-secondary gap-3">
+          {peerPhase(peer.id) !== 'failed' && (
+            <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          )}
+          <div className="text-center">
+            <p className="text-muted-foreground font-medium">
+              {peerPhase(peer.id) === 'signaling' && 'Обмен сигналами...'}
+              {peerPhase(peer.id) === 'connecting' && 'Установка соединения...'}
+              {peerPhase(peer.id) === 'connected' && 'Ожидание видео...'}
+              {peerPhase(peer.id) === 'reconnecting' && 'Переподключение...'}
+              {peerPhase(peer.id) === 'failed' && 'Ошибка подключения'}
+            </p>
+            {(callState.peers[peer.id]?.retries ?? 0) > 0 && peerPhase(peer.id) === 'reconnecting' && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Попытка {callState.peers[peer.id].retries} из {MAX_PEER_RETRIES}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+      {(peer.videoPaused || peer.remoteVideoPaused) && (
+        <div className="absolute top-4 right-4 flex flex-col items-end gap-2">
+          {peer.remoteVideoPaused && (
+            <div className="bg-background/80 backdrop-blur-sm text-xs text-foreground px-3 py-1 rounded-full">
+              Слабая связь: видео собеседника приостановлено
+            </div>
+          )}
+          {peer.videoPaused && (
+            <div className="bg-background/80 backdrop-blur-sm text-xs text-foreground px-3 py-1 rounded-full">
+              Слабая связь: ваше видео приостановлено
+            </div>
+          )}
+        </div>
+      )}
+    </VideoTile>
+  );
+
   return (
     <>
       <AlertDialog open={showTimeWarning} onOpenChange={setShowTimeWarning}>
@@ -981,75 +1652,94 @@ const VideoCall = ({ roomId, isCameraOn, isMicOn, onConnectionChange, onConnecti
         </AlertDialogContent>
       </AlertDialog>
 
-      <JoinRequestDialog
-        open={showJoinRequest}
-        onAccept={handleAcceptJoin}
-        onReject={handleRejectJoin}
-      />
-      <div className="max-w-7xl mx-auto h-full grid grid-cols-1 md:grid-cols-2 gap-4">
-        <Card className="relative bg-secondary border-border overflow-hidden aspect-video">
-          <video
-            ref={remoteVideoRef}
-            autoPlay
-            playsInline
-            muted={false}
-            className="w-full h-full object-cover"
-          />
-          {userDisconnected ? (
-            <div className="absolute inset-0 flex items-center justify-center bg-secondary">
-              <p className="text-muted-foreground">Пользователь покинул встречу</p>
-            </div>
-          ) : !isRemoteConnected ? (
-            <div className="absolute inset-0 flex flex-col items-center justify-center bg-secondary gap-3">
-              <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
-              <div className="text-center">
-                <p className="text-muted-foreground font-medium">
-                  {connectionStatus === 'initializing' && 'Инициализация...'}
-                  {connectionStatus === 'waiting_for_participant' && 'Ожидание участника...'}
-                  {connectionStatus === 'requesting_approval' && 'Запрос на подключение...'}
-                  {connectionStatus === 'signaling' && 'Обмен сигналами...'}
-                  {connectionStatus === 'connecting' && 'Установка соединения...'}
-                  {connectionStatus === 'disconnected' && 'Переподключение...'}
-                  {connectionStatus === 'failed' && 'Ошибка подключения'}
-                </p>
-                {connectionStatus === 'waiting_for_participant' && (
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Поделитесь ссылкой на комнату
-                  </p>
-                )}
-                {retryCountRef.current > 0 && connectionStatus === 'disconnected' && (
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Попытка {retryCountRef.current} из {maxRetries}
-                  </p>
-                )}
-              </div>
-            </div>
-          ) : null}
-          {userDisconnected && (
-            <div className="absolute inset-0 bg-black flex items-center justify-center">
-              <p className="text-white text-xl font-medium">Собеседник покинул встречу</p>
+      <div className="max-w-7xl mx-auto h-full flex flex-col lg:flex-row gap-4">
+        <div className="flex-1 flex flex-col gap-4">
+          {recorders.length > 0 && (
+            <div className="flex items-center gap-2 rounded-lg bg-destructive/10 text-destructive px-3 py-2 text-sm font-medium">
+              <span className="w-2 h-2 rounded-full bg-destructive animate-pulse" />
+              Идёт запись звонка: {recorders.map((peer) => peer.profile.name).join(', ')}
             </div>
           )}
-          {!userDisconnected && (
-            <div className="absolute bottom-4 left-4 bg-background/80 backdrop-blur-sm px-3 py-1 rounded-full">
-              <p className="text-sm text-foreground">Собеседник</p>
-            </div>
-          )}
-        </Card>
-
-        <Card className="relative bg-secondary border-border overflow-hidden aspect-video">
-          <video
-            ref={localVideoRef}
-            autoPlay
-            playsInline
-            muted
-            className="w-full h-full object-cover"
-          />
-          <div className="absolute bottom-4 left-4 bg-background/80 backdrop-blur-sm px-3 py-1 rounded-full">
-            <p className="text-sm text-foreground">Вы</p>
+          {presenter && renderPeerTile(presenter, "w-full")}
+          <div className={cn("grid gap-4 content-start", presenter ? "grid-cols-2 md:grid-cols-4 lg:grid-cols-6" : gridColumns(tileCount))}>
+            {peers.length === 0 && (
+              <Card className="relative bg-secondary border-border overflow-hidden aspect-video min-h-80">
+                <div className="absolute inset-0 flex flex-col items-center justify-center bg-secondary gap-3 p-4">
+                  {callState.phase !== 'failed' && callState.phase !== 'ended' && (
+                    <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+                  )}
+                  <div className="text-center">
+                    <p className="text-muted-foreground font-medium">
+                      {callState.phase === 'initializing' && 'Инициализация...'}
+                      {callState.phase === 'joining' && 'Подключение к комнате...'}
+                      {callState.phase === 'waiting_for_host' && 'Ожидание организатора...'}
+                      {callState.phase === 'waiting_for_participant' && 'Ожидание участника...'}
+                      {callState.phase === 'requesting_approval' && 'Запрос на подключение...'}
+                      {callState.phase === 'signaling' && 'Обмен сигналами...'}
+                      {callState.phase === 'connecting' && 'Установка соединения...'}
+                      {callState.phase === 'reconnecting' && 'Переподключение...'}
+                      {callState.phase === 'failed' && 'Ошибка подключения'}
+                      {callState.phase === 'ended' && 'Звонок завершён'}
+                    </p>
+                    {callState.phase === 'waiting_for_participant' && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Поделитесь ссылкой на комнату
+                      </p>
+                    )}
+                    {inLobby && lobbyPosition !== null && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Ваше место в очереди: {lobbyPosition}
+                      </p>
+                    )}
+                  </div>
+                  {inLobby && <LobbyMessageForm onSend={handleKnockMessage} />}
+                </div>
+              </Card>
+            )}
+
+            {(presenter ? others : peers).map((peer) => renderPeerTile(peer))}
+
+            <VideoTile
+              stream={localStream}
+              profile={localProfile}
+              label={isScreenSharing ? `${localProfile.name} (вы) — демонстрация экрана` : `${localProfile.name} (вы)`}
+              fit={isScreenSharing ? 'contain' : 'cover'}
+              reactions={reactions.local}
+              handRaised={isHandRaised}
+              speaking={isMicOn && speaking.includes(LOCAL_SPEAKER)}
+              muted
+            />
           </div>
-        </Card>
+        </div>
+
+        {callState.role === 'host' && (lobby.length > 0 || hands.length > 0) && (
+          <div className="w-full lg:w-80 shrink-0 flex flex-col gap-4">
+            {lobby.length > 0 && (
+              <LobbyPanel queue={lobby} capacity={capacity} onAdmit={handleAdmit} onDeny={handleDeny} />
+            )}
+            {hands.length > 0 && <RaisedHandsPanel hands={hands} />}
+          </div>
+        )}
       </div>
+
+      <ChatPanel
+        open={isChatOpen}
+        onOpenChange={(open) => onChatOpenChange?.(open)}
+        messages={chatMessages}
+        canSend={peers.some((peer) => peer.chatOpen)}
+        onSend={handleSendChat}
+        transfers={Object.values(transfers)}
+        onSendFiles={handleSendFiles}
+        onAcceptFile={(transfer) => fileChannelOf(transfer)?.accept(transfer.id)}
+        onDeclineFile={(transfer) => fileChannelOf(transfer)?.decline(transfer.id)}
+        onCancelFile={(transfer) => fileChannelOf(transfer)?.cancel(transfer.id)}
+      />
+
+      <StatsPanel
+        open={isStatsOpen}
+        onOpenChange={(open) => onStatsOpenChange?.(open)}
+        peers={peers.map((peer) => ({ id: peer.id, name: peer.profile.name, samples: stats[peer.id] ?? [] }))}
+      />
     </>
   );
 };
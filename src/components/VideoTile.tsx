@@ -0,0 +1,109 @@
+import { useEffect, useRef, type ReactNode } from "react";
+import { Card } from "@/components/ui/card";
+import { applyAudioOutput } from "@/lib/media";
+import type { ParticipantProfile } from "@/lib/participant";
+import type { ReactionBurst } from "@/lib/reactions";
+import ParticipantAvatar from "./ParticipantAvatar";
+import { cn } from "@/lib/utils";
+
+interface VideoTileProps {
+  stream: MediaStream | null;
+  profile: ParticipantProfile;
+  /** Overrides the profile name in the label, e.g. to mark the local tile */
+  label?: string;
+  muted?: boolean;
+  /** Speaker to play this tile's audio on, where supported */
+  audioOutputId?: string;
+  /** "contain" for shared screens, which must not be cropped */
+  fit?: "cover" | "contain";
+  /** Reactions currently floating over the tile */
+  reactions?: ReactionBurst[];
+  handRaised?: boolean;
+  /** Highlights the tile while the participant talks */
+  speaking?: boolean;
+  className?: string;
+  children?: ReactNode;
+}
+
+const VideoTile = ({ stream, profile, label, muted = false, audioOutputId, fit = "cover", reactions = [], handRaised = false, speaking = false, className, children }: VideoTileProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || video.srcObject === stream) {
+      return;
+    }
+    video.srcObject = stream;
+    if (!stream) {
+      return;
+    }
+
+    // Explicitly play for Android compatibility; fall back to the next user gesture
+    const playOnInteraction = async () => {
+      try {
+        await video.play();
+        document.removeEventListener('click', playOnInteraction);
+        document.removeEventListener('touchstart', playOnInteraction);
+      } catch (e) {
+        console.error('Failed to play on interaction:', e);
+      }
+    };
+
+    video.play().catch((playError) => {
+      console.warn('⚠️ Video autoplay prevented, will retry on user interaction:', playError);
+      document.addEventListener('click', playOnInteraction, { once: true });
+      document.addEventListener('touchstart', playOnInteraction, { once: true });
+    });
+
+    return () => {
+      document.removeEventListener('click', playOnInteraction);
+      document.removeEventListener('touchstart', playOnInteraction);
+    };
+  }, [stream]);
+
+  useEffect(() => {
+    if (videoRef.current && !muted) {
+      applyAudioOutput(videoRef.current, audioOutputId);
+    }
+  }, [audioOutputId, muted]);
+
+  return (
+    <Card
+      className={cn(
+        "relative bg-secondary border-border overflow-hidden aspect-video transition-shadow",
+        speaking && "ring-4 ring-primary",
+        className,
+      )}
+    >
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted={muted}
+        className={cn("w-full h-full", fit === "contain" ? "object-contain bg-black" : "object-cover")}
+      />
+      {children}
+      {reactions.map((reaction, index) => (
+        <span
+          key={reaction.id}
+          className="absolute bottom-14 text-4xl pointer-events-none animate-float-up"
+          style={{ left: `${16 + (index % 4) * 12}%` }}
+          aria-hidden
+        >
+          {reaction.emoji}
+        </span>
+      ))}
+      {handRaised && (
+        <div className="absolute top-4 left-4 bg-amber-400 text-2xl leading-none p-2 rounded-full shadow-md" title="Поднята рука">
+          ✋
+        </div>
+      )}
+      <div className="absolute bottom-4 left-4 flex items-center gap-2 bg-background/80 backdrop-blur-sm pl-1 pr-3 py-1 rounded-full">
+        <ParticipantAvatar profile={profile} size="sm" />
+        <p className="text-sm text-foreground">{label ?? profile.name}</p>
+      </div>
+    </Card>
+  );
+};
+
+export default VideoTile;
@@ -0,0 +1,30 @@
+import * as React from "react";
+import { AudioMeter } from "@/lib/audio-levels";
+
+// Meter level (0..1) of the first audio track of a stream, updated every animation frame
+export function useAudioLevel(stream: MediaStream | null) {
+  const [level, setLevel] = React.useState(0);
+
+  React.useEffect(() => {
+    const track = stream?.getAudioTracks()[0];
+    if (!track) {
+      setLevel(0);
+      return;
+    }
+
+    const meter = new AudioMeter(track);
+    let frame = 0;
+    const tick = () => {
+      setLevel(meter.level);
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      meter.close();
+    };
+  }, [stream]);
+
+  return level;
+}
@@ -0,0 +1,53 @@
+import * as React from "react";
+import { appendSample, CallStatsCollector, STATS_INTERVAL_MS, type CallStatsSample } from "@/lib/call-stats";
+
+// Rolling quality history per peer, sampled every second while `enabled`. `connections` is
+// asked for the current peer connections on every tick, so peers joining and leaving are
+// picked up without restarting.
+export function useCallStats(connections: () => Array<[string, RTCPeerConnection]>, enabled: boolean) {
+  const [history, setHistory] = React.useState<Record<string, CallStatsSample[]>>({});
+  const connectionsRef = React.useRef(connections);
+  connectionsRef.current = connections;
+
+  React.useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    // A reconnect creates a new RTCPeerConnection for the same peer; its counters start over
+    const collectors = new Map<string, CallStatsCollector>();
+    const pcs = new Map<string, RTCPeerConnection>();
+    let cancelled = false;
+
+    const tick = async () => {
+      const current = connectionsRef.current();
+      current.forEach(([id, pc]) => {
+        if (pcs.get(id) !== pc) {
+          pcs.set(id, pc);
+          collectors.set(id, new CallStatsCollector(pc));
+        }
+      });
+      const samples = await Promise.all(
+        current.map(async ([id]) => [id, await collectors.get(id)!.sample().catch(() => null)] as const),
+      );
+      if (cancelled) {
+        return;
+      }
+      setHistory((previous) => {
+        const next: Record<string, CallStatsSample[]> = {};
+        samples.forEach(([id, sample]) => {
+          next[id] = sample ? appendSample(previous[id] ?? [], sample) : previous[id] ?? [];
+        });
+        return next;
+      });
+    };
+
+    tick();
+    const timer = setInterval(tick, STATS_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [enabled]);
+
+  return history;
+}
@@ -0,0 +1,36 @@
+import * as React from "react";
+import { appendChatMessage, countUnread, loadChatHistory, saveChatHistory, type ChatMessage } from "@/lib/chat";
+
+const lastMessageId = (messages: ChatMessage[]) => messages[messages.length - 1]?.id ?? null;
+
+// Chat history of a room and the number of messages from others that arrived while the chat
+// was closed. Opening the chat marks everything as read. What was read is remembered by
+// message id, since the history drops its oldest messages once it is full.
+export function useChat(roomId: string, open: boolean) {
+  const [messages, setMessages] = React.useState(() => loadChatHistory(roomId));
+  const [lastReadId, setLastReadId] = React.useState(() => lastMessageId(messages));
+
+  React.useEffect(() => {
+    const history = loadChatHistory(roomId);
+    setMessages(history);
+    setLastReadId(lastMessageId(history));
+  }, [roomId]);
+
+  React.useEffect(() => {
+    saveChatHistory(roomId, messages);
+  }, [roomId, messages]);
+
+  React.useEffect(() => {
+    if (open) {
+      setLastReadId(lastMessageId(messages));
+    }
+  }, [open, messages]);
+
+  const addMessage = React.useCallback((message: ChatMessage) => {
+    setMessages((current) => appendChatMessage(current, message));
+  }, []);
+
+  const unread = countUnread(messages, lastReadId);
+
+  return { messages, unread, addMessage };
+}
@@ -0,0 +1,62 @@
+import * as React from "react";
+import { useMediaDevices, type MediaDeviceLists } from "@/hooks/use-media-devices";
+import { toast } from "@/hooks/use-toast";
+import type { MediaDeviceSelection } from "@/lib/media";
+
+type SelectionKey = keyof MediaDeviceSelection;
+
+const LISTS: Record<SelectionKey, keyof MediaDeviceLists> = {
+  videoInputId: "videoInputs",
+  audioInputId: "audioInputs",
+  audioOutputId: "audioOutputs",
+};
+
+// Virtual entries Chrome adds next to the physical devices
+const isVirtual = (device: MediaDeviceInfo) => device.deviceId === "default" || device.deviceId === "communications";
+
+// Selected devices that follow hot-plugging: a newly connected headset is picked up right away,
+// and a selection whose device disappeared falls back to the system default. Losing the device
+// behind the default leaves the selection as it is; VideoCall notices its track ending instead.
+// Pass `ready` once media permission is granted, otherwise the browser hides the devices.
+export function useDeviceSelection(ready = true) {
+  const [selection, setSelection] = React.useState<MediaDeviceSelection>({});
+  const devices = useMediaDevices(ready);
+  const previous = React.useRef<MediaDeviceLists | null>(null);
+  const selectionRef = React.useRef(selection);
+  selectionRef.current = selection;
+
+  React.useEffect(() => {
+    const before = previous.current;
+    previous.current = devices;
+    // The first enumeration is the baseline, not a hot-plug
+    if (!before || before.audioInputs.length + before.videoInputs.length === 0) {
+      return;
+    }
+
+    const current = selectionRef.current;
+    const next = { ...current };
+    (Object.keys(LISTS) as SelectionKey[]).forEach((key) => {
+      const list = devices[LISTS[key]];
+      const known = new Set(before[LISTS[key]].map((device) => device.deviceId));
+      const added = list.filter((device) => !known.has(device.deviceId) && !isVirtual(device));
+
+      // A plugged-in headset is what people expect to hear and speak through; cameras are left alone
+      if (key !== "videoInputId" && added.length > 0) {
+        next[key] = added[0].deviceId;
+        toast({ title: "Подключено устройство", description: added[0].label || "Новое аудиоустройство" });
+      } else if (current[key] && !list.some((device) => device.deviceId === current[key])) {
+        next[key] = undefined;
+        toast({ title: "Устройство отключено", description: "Используется устройство по умолчанию" });
+      }
+    });
+    if ((Object.keys(LISTS) as SelectionKey[]).some((key) => next[key] !== current[key])) {
+      setSelection(next);
+    }
+  }, [devices]);
+
+  const select = React.useCallback((key: SelectionKey, deviceId: string) => {
+    setSelection((current) => ({ ...current, [key]: deviceId }));
+  }, []);
+
+  return { selection, select, setSelection, devices };
+}
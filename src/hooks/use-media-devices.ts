@@ -0,0 +1,43 @@
+import * as React from "react";
+
+export interface MediaDeviceLists {
+  videoInputs: MediaDeviceInfo[];
+  audioInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+}
+
+const EMPTY: MediaDeviceLists = { videoInputs: [], audioInputs: [], audioOutputs: [] };
+
+// Labels are only exposed once the page has media permission, so pass `ready` after getUserMedia
+export function useMediaDevices(ready = true) {
+  const [devices, setDevices] = React.useState<MediaDeviceLists>(EMPTY);
+
+  React.useEffect(() => {
+    if (!ready || !navigator.mediaDevices?.enumerateDevices) {
+      return;
+    }
+    let cancelled = false;
+
+    const update = async () => {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      if (cancelled) {
+        return;
+      }
+      const withId = all.filter((device) => device.deviceId);
+      setDevices({
+        videoInputs: withId.filter((device) => device.kind === "videoinput"),
+        audioInputs: withId.filter((device) => device.kind === "audioinput"),
+        audioOutputs: withId.filter((device) => device.kind === "audiooutput"),
+      });
+    };
+
+    update();
+    navigator.mediaDevices.addEventListener("devicechange", update);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices.removeEventListener("devicechange", update);
+    };
+  }, [ready]);
+
+  return devices;
+}
@@ -44,6 +44,14 @@ export type Database = {
     }
     Functions: {
       cleanup_old_signaling_messages: { Args: never; Returns: undefined }
+      get_recent_signaling_messages: {
+        Args: { p_room_id: string }
+        Returns: {
+          created_at: string
+          data: Json
+          type: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
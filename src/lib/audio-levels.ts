@@ -0,0 +1,193 @@
+// Who is speaking right now. The local microphone is measured with an AnalyserNode, remote
+// participants with the audioLevel their inbound RTP stats report, both sampled on one timer.
+// The result is a snapshot store for useSyncExternalStore: per-participant levels for meters,
+// who is speaking for tile highlights, and one active speaker for layouts.
+
+/** Key of the local participant in the snapshot */
+export const LOCAL_SPEAKER = "local";
+
+const POLL_INTERVAL_MS = 150;
+// On the 0..1 meter scale below; roughly quiet speech at a normal distance from the microphone
+const SPEAKING_LEVEL = 0.15;
+// Keeps the highlight on through the short pauses between words
+const SPEAKING_HOLD_MS = 700;
+
+export interface AudioLevels {
+  /** Meter level 0..1 by participant id (LOCAL_SPEAKER for ourselves) */
+  levels: Record<string, number>;
+  /** Participants currently speaking; the same array until the set changes */
+  speaking: string[];
+  /** The latest remote participant to speak, kept through silence; null until someone has */
+  activeSpeaker: string | null;
+}
+
+type Listener = (levels: AudioLevels) => void;
+
+type PeerConnections = () => Array<[string, RTCPeerConnection]>;
+
+// Microphone RMS and RTP audioLevel are both linear amplitudes where speech sits around
+// 0.05-0.2; stretched so meters move visibly, and quantised so snapshots and React state only
+// change when a meter would
+const toMeterLevel = (amplitude: number) => Math.round(Math.min(amplitude * 4, 1) * 20) / 20;
+
+const sameMembers = (a: string[], b: string[]) => a.length === b.length && a.every((id, index) => id === b[index]);
+
+const sameLevels = (a: Record<string, number>, b: Record<string, number>) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+};
+
+/** Loudest audio currently received on a connection, 0..1; null when the browser does not report it */
+export const remoteAudioLevel = async (pc: RTCPeerConnection) => {
+  const report = await pc.getStats();
+  let level: number | null = null;
+  report.forEach((stat) => {
+    if (stat.type === "inbound-rtp" && stat.kind === "audio" && typeof stat.audioLevel === "number") {
+      level = Math.max(level ?? 0, stat.audioLevel);
+    }
+  });
+  return level;
+};
+
+/** Meter level (0..1) of a local audio track, measured whenever `level` is read */
+export class AudioMeter {
+  readonly track: MediaStreamTrack;
+  private context = new AudioContext();
+  private source: MediaStreamAudioSourceNode;
+  private analyser: AnalyserNode;
+  private samples: Float32Array;
+
+  constructor(track: MediaStreamTrack) {
+    this.track = track;
+    this.source = this.context.createMediaStreamSource(new MediaStream([track]));
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 512;
+    this.source.connect(this.analyser);
+    this.samples = new Float32Array(this.analyser.fftSize);
+  }
+
+  get level() {
+    if (!this.track.enabled || this.track.readyState === "ended") {
+      return 0;
+    }
+    this.analyser.getFloatTimeDomainData(this.samples);
+    return toMeterLevel(Math.sqrt(this.samples.reduce((sum, sample) => sum + sample * sample, 0) / this.samples.length));
+  }
+
+  close() {
+    this.source.disconnect();
+    this.context.close();
+  }
+}
+
+export class AudioLevelMonitor {
+  private current: AudioLevels = { levels: {}, speaking: [], activeSpeaker: null };
+  private listeners = new Set<Listener>();
+  private local: AudioMeter | null = null;
+  private peers: PeerConnections = () => [];
+  private lastHeard = new Map<string, number>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  /** Measure this microphone track as our own level; null when there is none */
+  setLocalTrack(track: MediaStreamTrack | null) {
+    if (this.local?.track === track) {
+      return;
+    }
+    this.local?.close();
+    this.local = track ? new AudioMeter(track) : null;
+  }
+
+  /** Start sampling; `peers` is asked for the current connections on every poll */
+  start(peers: PeerConnections) {
+    this.peers = peers;
+    if (!this.timer) {
+      this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    }
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.setLocalTrack(null);
+    this.lastHeard.clear();
+    this.update({ levels: {}, speaking: [], activeSpeaker: null });
+  }
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.current;
+
+  private async poll() {
+    // getStats may take longer than the interval on a busy machine
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      const levels: Record<string, number> = {};
+      if (this.local) {
+        levels[LOCAL_SPEAKER] = this.local.level;
+      }
+      const remote = await Promise.all(
+        this.peers().map(async ([id, pc]) => [id, await remoteAudioLevel(pc).catch(() => null)] as const),
+      );
+      remote.forEach(([id, level]) => {
+        if (level !== null) {
+          levels[id] = toMeterLevel(level);
+        }
+      });
+      if (this.timer) {
+        this.update(this.next(levels));
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private next(levels: Record<string, number>): AudioLevels {
+    const now = performance.now();
+    Object.entries(levels).forEach(([id, level]) => {
+      if (level >= SPEAKING_LEVEL) {
+        this.lastHeard.set(id, now);
+      }
+    });
+    const speaking = Object.keys(levels)
+      .filter((id) => now - (this.lastHeard.get(id) ?? -Infinity) < SPEAKING_HOLD_MS)
+      .sort();
+
+    // Stay on the active speaker while they talk; otherwise the loudest remote speaker takes over
+    let { activeSpeaker } = this.current;
+    if (activeSpeaker !== null && !(activeSpeaker in levels)) {
+      activeSpeaker = null;
+    }
+    if (activeSpeaker === null || !speaking.includes(activeSpeaker)) {
+      const loudest = speaking
+        .filter((id) => id !== LOCAL_SPEAKER)
+        .sort((a, b) => levels[b] - levels[a])[0];
+      activeSpeaker = loudest ?? activeSpeaker;
+    }
+
+    return {
+      levels: sameLevels(levels, this.current.levels) ? this.current.levels : levels,
+      speaking: sameMembers(speaking, this.current.speaking) ? this.current.speaking : speaking,
+      activeSpeaker,
+    };
+  }
+
+  private update(next: AudioLevels) {
+    const { current } = this;
+    if (next.levels === current.levels && next.speaking === current.speaking && next.activeSpeaker === current.activeSpeaker) {
+      return;
+    }
+    this.current = next;
+    this.listeners.forEach((listener) => listener(next));
+  }
+}
@@ -0,0 +1,117 @@
+import noiseGateUrl from "./noise-gate.worklet.ts?worker&url";
+
+// Optional processing of the outgoing microphone: high-pass filter → input gain → noise gate,
+// built with Web Audio. The processed track replaces the microphone on the senders with
+// replaceTrack, like the background effects do for the camera.
+//
+// Music mode is the opposite: no processing at all, the browser's echo cancellation, noise
+// suppression and gain control switched off, and Opus asked for stereo at a high bitrate (see
+// PeerSession.setAudioProfile), for sharing instruments or playback.
+
+export interface AudioSettings {
+  /** Run the processing chain below; ignored in music mode */
+  processing: boolean;
+  /** Input gain, 1 = unchanged */
+  gain: number;
+  /** Noise gate threshold in dBFS; -100 leaves the gate always open */
+  gateThreshold: number;
+  /** Cut rumble and handling noise below HIGH_PASS_FREQUENCY */
+  highPass: boolean;
+  musicMode: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  processing: false,
+  gain: 1,
+  gateThreshold: -50,
+  highPass: true,
+  musicMode: false,
+};
+
+export const MIN_GATE_THRESHOLD = -100;
+export const MAX_INPUT_GAIN = 3;
+const HIGH_PASS_FREQUENCY = 90;
+
+/** Whether the chain should be running for these settings */
+export const isProcessingActive = (settings: AudioSettings) => settings.processing && !settings.musicMode;
+
+/** Capture constraints for the current mode; music wants the raw, stereo signal */
+export const microphoneModeConstraints = (musicMode: boolean): MediaTrackConstraints => ({
+  echoCancellation: !musicMode,
+  noiseSuppression: !musicMode,
+  autoGainControl: !musicMode,
+  channelCount: musicMode ? 2 : 1,
+});
+
+export const isAudioProcessingSupported = () =>
+  typeof AudioContext !== "undefined" && "audioWorklet" in AudioContext.prototype;
+
+export class AudioProcessor {
+  /** The processed track to send instead of the microphone */
+  readonly track: MediaStreamTrack;
+  /** Resolves once the noise gate worklet is loaded and the chain is connected */
+  readonly ready: Promise<void>;
+  private context = new AudioContext({ latencyHint: "interactive" });
+  private source: MediaStreamAudioSourceNode;
+  private highPass: BiquadFilterNode;
+  private gain: GainNode;
+  private gate: AudioWorkletNode | null = null;
+  private destination: MediaStreamAudioDestinationNode;
+  private settings: AudioSettings;
+
+  constructor(microphone: MediaStreamTrack, settings: AudioSettings) {
+    this.settings = settings;
+    this.source = this.context.createMediaStreamSource(new MediaStream([microphone]));
+    this.highPass = new BiquadFilterNode(this.context, { type: "highpass", frequency: HIGH_PASS_FREQUENCY });
+    this.gain = new GainNode(this.context);
+    this.destination = this.context.createMediaStreamDestination();
+    this.track = this.destination.stream.getAudioTracks()[0];
+
+    this.ready = this.context.audioWorklet.addModule(noiseGateUrl).then(() => {
+      this.gate = new AudioWorkletNode(this.context, "noise-gate");
+      this.connect();
+      this.setSettings(this.settings);
+      // Created outside a user gesture, so it may start suspended
+      return this.context.resume();
+    });
+  }
+
+  setSettings(settings: AudioSettings) {
+    const highPassChanged = settings.highPass !== this.settings.highPass;
+    this.settings = settings;
+    const now = this.context.currentTime;
+    this.gain.gain.setTargetAtTime(settings.gain, now, 0.02);
+    this.gate?.parameters.get("threshold")?.setValueAtTime(settings.gateThreshold, now);
+    if (highPassChanged) {
+      this.connect();
+    }
+  }
+
+  /** Continue with another microphone, e.g. after a device switch */
+  setSource(microphone: MediaStreamTrack) {
+    this.source.disconnect();
+    this.source = this.context.createMediaStreamSource(new MediaStream([microphone]));
+    this.connect();
+  }
+
+  close() {
+    this.track.stop();
+    this.context.close();
+  }
+
+  private connect() {
+    if (!this.gate) {
+      return;
+    }
+    this.source.disconnect();
+    this.highPass.disconnect();
+    this.source.connect(this.settings.highPass ? this.highPass : this.gain);
+    if (this.settings.highPass) {
+      this.highPass.connect(this.gain);
+    }
+    this.gain.disconnect();
+    this.gain.connect(this.gate);
+    this.gate.disconnect();
+    this.gate.connect(this.destination);
+  }
+}
@@ -0,0 +1,69 @@
+// Noise gate running on the audio thread: silences the microphone while its level stays below
+// the threshold. The level is the RMS of each 128-sample block; the gate opens quickly, holds
+// for a moment after speech stops and then fades out, so word endings are not clipped.
+
+declare const sampleRate: number;
+
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+declare function registerProcessor(
+  name: string,
+  processor: new () => AudioWorkletProcessor & {
+    process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+  },
+): void;
+
+const ATTACK_SECONDS = 0.005;
+const RELEASE_SECONDS = 0.12;
+const HOLD_SECONDS = 0.2;
+
+const toDecibels = (rms: number) => (rms > 0 ? 20 * Math.log10(rms) : -Infinity);
+
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: "threshold", defaultValue: -50, minValue: -100, maxValue: 0, automationRate: "k-rate" }];
+  }
+
+  private gain = 0;
+  private holdSamples = 0;
+  private attack = 1 - Math.exp(-1 / (ATTACK_SECONDS * sampleRate));
+  private release = 1 - Math.exp(-1 / (RELEASE_SECONDS * sampleRate));
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) {
+      return true;
+    }
+
+    let sum = 0;
+    let count = 0;
+    input.forEach((channel) => {
+      for (let i = 0; i < channel.length; i++) {
+        sum += channel[i] * channel[i];
+      }
+      count += channel.length;
+    });
+    const level = toDecibels(Math.sqrt(sum / Math.max(count, 1)));
+    const blockSize = input[0].length;
+
+    if (level >= parameters.threshold[0]) {
+      this.holdSamples = HOLD_SECONDS * sampleRate;
+    } else {
+      this.holdSamples = Math.max(this.holdSamples - blockSize, 0);
+    }
+    const target = this.holdSamples > 0 ? 1 : 0;
+
+    for (let i = 0; i < blockSize; i++) {
+      this.gain += (target - this.gain) * (target > this.gain ? this.attack : this.release);
+      output.forEach((channel, index) => {
+        channel[i] = (input[index] ?? input[0])[i] * this.gain;
+      });
+    }
+    return true;
+  }
+}
+
+registerProcessor("noise-gate", NoiseGateProcessor);
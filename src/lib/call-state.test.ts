@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import {
+  canRetryPeer,
+  initialCallState,
+  MAX_PEER_RETRIES,
+  transition,
+  type CallEvent,
+  type CallState,
+} from "./call-state";
+
+const run = (events: CallEvent[], state: CallState = initialCallState) => events.reduce(transition, state);
+
+const joinedAs = (role: "host" | "guest") => run([{ type: "MEDIA_READY" }, { type: "CHANNEL_JOINED", role }]);
+
+const connectedTo = (peerId: string) =>
+  run(
+    [
+      { type: "PEER_ADDED", peerId },
+      { type: "PEER_CONNECTION_CHANGED", peerId, state: "connecting" },
+      { type: "PEER_CONNECTION_CHANGED", peerId, state: "connected" },
+    ],
+    joinedAs("host"),
+  );
+
+describe("transition", () => {
+  describe("joining", () => {
+    it("waits for media before joining the channel", () => {
+      expect(transition(initialCallState, { type: "CHANNEL_JOINED", role: "host" })).toBe(initialCallState);
+      expect(transition(initialCallState, { type: "MEDIA_READY" }).phase).toBe("joining");
+    });
+
+    it("lets the host straight into the call", () => {
+      const state = joinedAs("host");
+      expect(state).toMatchObject({ phase: "waiting_for_participant", role: "host", approved: true });
+    });
+
+    it("fails on missing media and ignores it once joining", () => {
+      expect(transition(initialCallState, { type: "MEDIA_FAILED" })).toMatchObject({ phase: "failed", error: "media" });
+      const joining = run([{ type: "MEDIA_READY" }]);
+      expect(transition(joining, { type: "MEDIA_FAILED" })).toBe(joining);
+    });
+  });
+
+  describe("approval", () => {
+    it("waits for the host, then asks it for approval", () => {
+      const guest = joinedAs("guest");
+      expect(guest).toMatchObject({ phase: "waiting_for_host", approved: false });
+
+      const asking = transition(guest, { type: "HOST_PRESENCE", present: true });
+      expect(asking.phase).toBe("requesting_approval");
+      expect(transition(asking, { type: "HOST_PRESENCE", present: false }).phase).toBe("waiting_for_host");
+    });
+
+    it("enters the call once approved", () => {
+      const state = run([{ type: "HOST_PRESENCE", present: true }, { type: "APPROVED" }], joinedAs("guest"));
+      expect(state).toMatchObject({ phase: "waiting_for_participant", approved: true });
+      // The host leaving afterwards does not send an approved guest back to the lobby
+      expect(transition(state, { type: "HOST_PRESENCE", present: false })).toBe(state);
+    });
+
+    it("ends the call when rejected", () => {
+      const state = transition(joinedAs("guest"), { type: "REJECTED", reason: "room_full" });
+      expect(state).toMatchObject({ phase: "ended", error: "room_full" });
+      expect(transition(state, { type: "APPROVED" })).toBe(state);
+    });
+
+    it("ignores a rejection after approval and an approval of the host", () => {
+      const approved = transition(joinedAs("guest"), { type: "APPROVED" });
+      expect(transition(approved, { type: "REJECTED", reason: "rejected" })).toBe(approved);
+      const host = joinedAs("host");
+      expect(transition(host, { type: "APPROVED" })).toBe(host);
+    });
+
+    it("does not connect to peers before approval", () => {
+      const guest = joinedAs("guest");
+      expect(transition(guest, { type: "PEER_ADDED", peerId: "a" })).toBe(guest);
+    });
+  });
+
+  describe("signaling", () => {
+    it("follows the peer connection from signaling to connected", () => {
+      const added = transition(joinedAs("host"), { type: "PEER_ADDED", peerId: "a" });
+      expect(added.phase).toBe("signaling");
+      expect(added.peers.a).toEqual({ phase: "signaling", retries: 0 });
+
+      const connecting = transition(added, { type: "PEER_CONNECTION_CHANGED", peerId: "a", state: "connecting" });
+      expect(connecting.phase).toBe("connecting");
+
+      const connected = transition(connecting, { type: "PEER_CONNECTION_CHANGED", peerId: "a", state: "connected" });
+      expect(connected.phase).toBe("connected");
+    });
+
+    it("reports the healthiest peer and goes back to waiting when everyone left", () => {
+      const state = transition(connectedTo("a"), { type: "PEER_ADDED", peerId: "b" });
+      expect(state.phase).toBe("connected");
+      expect(transition(state, { type: "PEER_ADDED", peerId: "b" })).toBe(state);
+
+      const alone = run([{ type: "PEER_REMOVED", peerId: "a" }, { type: "PEER_REMOVED", peerId: "b" }], state);
+      expect(alone).toMatchObject({ phase: "waiting_for_participant", peers: {} });
+    });
+
+    it("ignores connection changes of unknown peers", () => {
+      const state = joinedAs("host");
+      expect(transition(state, { type: "PEER_CONNECTION_CHANGED", peerId: "x", state: "connected" })).toBe(state);
+    });
+  });
+
+  describe("reconnecting", () => {
+    it("reconnects after a drop and resets the retries once connected again", () => {
+      const dropped = transition(connectedTo("a"), { type: "PEER_CONNECTION_CHANGED", peerId: "a", state: "disconnected" });
+      expect(dropped.phase).toBe("reconnecting");
+
+      const retried = transition(dropped, { type: "PEER_RETRY", peerId: "a" });
+      expect(retried.peers.a).toEqual({ phase: "reconnecting", retries: 1 });
+      // An ICE restart passes through connecting without leaving reconnecting
+      const restarting = transition(retried, { type: "PEER_CONNECTION_CHANGED", peerId: "a", state: "connecting" });
+      expect(restarting.peers.a.phase).toBe("reconnecting");
+
+      const recovered = transition(restarting, { type: "PEER_CONNECTION_CHANGED", peerId: "a", state: "connected" });
+      expect(recovered.phase).toBe("connected");
+      expect(recovered.peers.a).toEqual({ phase: "connected", retries: 0 });
+    });
+
+    it("only retries a reconnecting peer", () => {
+      const state = connectedTo("a");
+      expect(transition(state, { type: "PEER_RETRY", peerId: "a" })).toBe(state);
+      expect(transition(state, { type: "PEER_RETRY", peerId: "x" })).toBe(state);
+    });
+
+    it("stops counting retries at the budget", () => {
+      const dropped = transition(connectedTo("a"), { type: "PEER_CONNECTION_CHANGED", peerId: "a", state: "failed" });
+      const exhausted = run(Array.from({ length: MAX_PEER_RETRIES }, () => ({ type: "PEER_RETRY", peerId: "a" }) as const), dropped);
+      expect(exhausted.peers.a.retries).toBe(MAX_PEER_RETRIES);
+      expect(transition(exhausted, { type: "PEER_RETRY", peerId: "a" })).toBe(exhausted);
+    });
+  });
+
+  describe("failure", () => {
+    it("fails a peer that could not be recovered", () => {
+      const dropped = transition(connectedTo("a"), { type: "PEER_CONNECTION_CHANGED", peerId: "a", state: "failed" });
+      const state = transition(dropped, { type: "PEER_GAVE_UP", peerId: "a" });
+      expect(state.phase).toBe("failed");
+      expect(state.peers.a.phase).toBe("failed");
+      // A failed peer stays failed even if its connection reports another drop
+      expect(transition(state, { type: "PEER_CONNECTION_CHANGED", peerId: "a", state: "disconnected" })).toBe(state);
+    });
+
+    it("does not give up on a connected peer", () => {
+      const state = connectedTo("a");
+      expect(transition(state, { type: "PEER_GAVE_UP", peerId: "a" })).toBe(state);
+    });
+
+    it("fails the call when the channel does", () => {
+      const state = transition(joinedAs("guest"), { type: "CHANNEL_FAILED", reason: "timed_out" });
+      expect(state).toMatchObject({ phase: "failed", error: "timed_out" });
+    });
+
+    it("starts over from joining when the channel is left, unless media failed", () => {
+      expect(transition(connectedTo("a"), { type: "CHANNEL_LEFT" })).toEqual({ ...initialCallState, phase: "joining" });
+      const noMedia = transition(initialCallState, { type: "MEDIA_FAILED" });
+      expect(transition(noMedia, { type: "CHANNEL_LEFT" })).toBe(noMedia);
+    });
+
+    it("ignores everything after hanging up", () => {
+      const state = transition(connectedTo("a"), { type: "HANG_UP", reason: "max_duration" });
+      expect(state).toMatchObject({ phase: "ended", error: "max_duration", peers: {} });
+      expect(transition(state, { type: "PEER_ADDED", peerId: "b" })).toBe(state);
+    });
+  });
+});
+
+describe("canRetryPeer", () => {
+  it("allows retries only while reconnecting and within the budget", () => {
+    const connected = connectedTo("a");
+    expect(canRetryPeer(connected, "a")).toBe(false);
+    expect(canRetryPeer(connected, "x")).toBe(false);
+
+    let state = transition(connected, { type: "PEER_CONNECTION_CHANGED", peerId: "a", state: "disconnected" });
+    for (let attempt = 0; attempt < MAX_PEER_RETRIES; attempt++) {
+      expect(canRetryPeer(state, "a")).toBe(true);
+      state = transition(state, { type: "PEER_RETRY", peerId: "a" });
+    }
+    expect(canRetryPeer(state, "a")).toBe(false);
+  });
+
+  it("does not retry a peer that was given up on", () => {
+    const dropped = transition(connectedTo("a"), { type: "PEER_CONNECTION_CHANGED", peerId: "a", state: "failed" });
+    expect(canRetryPeer(transition(dropped, { type: "PEER_GAVE_UP", peerId: "a" }), "a")).toBe(false);
+  });
+});
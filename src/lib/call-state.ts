@@ -0,0 +1,242 @@
+// UI-free state machine for a call. Every input (media, signaling, presence, peer connections)
+// becomes an event; `transition` is the only place the call state changes, so contradictory
+// updates from different callbacks can no longer race each other.
+
+export type CallPhase =
+  | "initializing"
+  | "joining"
+  | "waiting_for_host"
+  | "requesting_approval"
+  | "waiting_for_participant"
+  | "signaling"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "failed"
+  | "ended";
+
+export type PeerPhase = "signaling" | "connecting" | "connected" | "reconnecting" | "failed";
+
+export type CallError = "media" | "channel_error" | "timed_out" | "rejected" | "room_full" | "max_duration";
+
+export type CallRole = "host" | "guest";
+
+export interface PeerState {
+  phase: PeerPhase;
+  retries: number;
+}
+
+export interface CallState {
+  phase: CallPhase;
+  role: CallRole;
+  approved: boolean;
+  hostPresent: boolean;
+  peers: Record<string, PeerState>;
+  error: CallError | null;
+}
+
+export type CallEvent =
+  | { type: "MEDIA_READY" }
+  | { type: "MEDIA_FAILED" }
+  | { type: "CHANNEL_JOINED"; role: CallRole }
+  | { type: "CHANNEL_FAILED"; reason: "channel_error" | "timed_out" }
+  | { type: "CHANNEL_LEFT" }
+  | { type: "HOST_PRESENCE"; present: boolean }
+  | { type: "APPROVED" }
+  | { type: "REJECTED"; reason: "rejected" | "room_full" }
+  | { type: "PEER_ADDED"; peerId: string }
+  | { type: "PEER_CONNECTION_CHANGED"; peerId: string; state: RTCPeerConnectionState }
+  | { type: "PEER_RETRY"; peerId: string }
+  | { type: "PEER_GAVE_UP"; peerId: string }
+  | { type: "PEER_REMOVED"; peerId: string }
+  | { type: "HANG_UP"; reason?: CallError };
+
+export const MAX_PEER_RETRIES = 3;
+
+export const initialCallState: CallState = {
+  phase: "initializing",
+  role: "guest",
+  approved: false,
+  hostPresent: false,
+  peers: {},
+  error: null,
+};
+
+const PEER_PRIORITY: PeerPhase[] = ["connected", "reconnecting", "connecting", "signaling", "failed"];
+
+// Once in the call, the overall phase is that of the healthiest peer connection
+const inCallPhase = (peers: Record<string, PeerState>): CallPhase => {
+  const phases = Object.values(peers).map((peer) => peer.phase);
+  if (phases.length === 0) {
+    return "waiting_for_participant";
+  }
+  return PEER_PRIORITY.find((phase) => phases.includes(phase)) ?? "failed";
+};
+
+const lobbyPhase = (state: CallState): CallPhase =>
+  state.hostPresent ? "requesting_approval" : "waiting_for_host";
+
+const nextPeerPhase = (peer: PeerState, connection: RTCPeerConnectionState): PeerPhase => {
+  switch (connection) {
+    case "connected":
+      return "connected";
+    case "connecting":
+      // ICE restarts pass through "connecting" again; stay in reconnecting until it succeeds
+      return peer.phase === "signaling" ? "connecting" : peer.phase;
+    case "disconnected":
+    case "failed":
+      return peer.phase === "failed" ? "failed" : "reconnecting";
+    default:
+      return peer.phase;
+  }
+};
+
+const withPeers = (state: CallState, peers: Record<string, PeerState>): CallState => ({
+  ...state,
+  peers,
+  phase: inCallPhase(peers),
+});
+
+export const transition = (state: CallState, event: CallEvent): CallState => {
+  if (state.phase === "ended") {
+    return state;
+  }
+
+  switch (event.type) {
+    case "MEDIA_READY":
+      return state.phase === "initializing" ? { ...state, phase: "joining" } : state;
+
+    case "MEDIA_FAILED":
+      return state.phase === "initializing" ? { ...state, phase: "failed", error: "media" } : state;
+
+    case "CHANNEL_JOINED": {
+      if (state.phase !== "joining") {
+        return state;
+      }
+      const approved = event.role === "host";
+      const next = { ...state, role: event.role, approved };
+      return approved ? withPeers(next, state.peers) : { ...next, phase: lobbyPhase(next) };
+    }
+
+    case "CHANNEL_FAILED":
+      return { ...state, phase: "failed", error: event.reason };
+
+    case "CHANNEL_LEFT":
+      // Media is still there; a new subscription starts over from the lobby
+      return state.phase === "initializing" || state.error === "media"
+        ? state
+        : { ...initialCallState, phase: "joining" };
+
+    case "HOST_PRESENCE": {
+      if (state.approved || state.hostPresent === event.present) {
+        return state;
+      }
+      const next = { ...state, hostPresent: event.present };
+      return state.phase === "waiting_for_host" || state.phase === "requesting_approval"
+        ? { ...next, phase: lobbyPhase(next) }
+        : next;
+    }
+
+    case "APPROVED":
+      if (state.approved || state.role === "host") {
+        return state;
+      }
+      return withPeers({ ...state, approved: true }, state.peers);
+
+    case "REJECTED":
+      return state.approved ? state : { ...state, phase: "ended", error: event.reason };
+
+    case "PEER_ADDED":
+      if (!state.approved || state.peers[event.peerId]) {
+        return state;
+      }
+      return withPeers(state, { ...state.peers, [event.peerId]: { phase: "signaling", retries: 0 } });
+
+    case "PEER_CONNECTION_CHANGED": {
+      const peer = state.peers[event.peerId];
+      if (!peer) {
+        return state;
+      }
+      const phase = nextPeerPhase(peer, event.state);
+      const retries = phase === "connected" ? 0 : peer.retries;
+      if (phase === peer.phase && retries === peer.retries) {
+        return state;
+      }
+      return withPeers(state, { ...state.peers, [event.peerId]: { phase, retries } });
+    }
+
+    case "PEER_RETRY": {
+      const peer = state.peers[event.peerId];
+      if (!peer || peer.phase !== "reconnecting" || peer.retries >= MAX_PEER_RETRIES) {
+        return state;
+      }
+      return withPeers(state, { ...state.peers, [event.peerId]: { ...peer, retries: peer.retries + 1 } });
+    }
+
+    case "PEER_GAVE_UP": {
+      const peer = state.peers[event.peerId];
+      if (!peer || peer.phase === "connected") {
+        return state;
+      }
+      return withPeers(state, { ...state.peers, [event.peerId]: { ...peer, phase: "failed" } });
+    }
+
+    case "PEER_REMOVED": {
+      if (!state.peers[event.peerId]) {
+        return state;
+      }
+      const peers = { ...state.peers };
+      delete peers[event.peerId];
+      return withPeers(state, peers);
+    }
+
+    case "HANG_UP":
+      return { ...state, phase: "ended", error: event.reason ?? null, peers: {} };
+
+    default:
+      return state;
+  }
+};
+
+export const canRetryPeer = (state: CallState, peerId: string) => {
+  const peer = state.peers[peerId];
+  return !!peer && peer.phase === "reconnecting" && peer.retries < MAX_PEER_RETRIES;
+};
+
+/** Whether the call has been established at least with one peer and may be recovering */
+export const isInCall = (phase: CallPhase) => phase === "connected" || phase === "reconnecting";
+
+type Listener = (state: CallState) => void;
+
+// Synchronous holder around `transition`, so event handlers always read the latest state
+export class CallStateMachine {
+  private current: CallState;
+  private listeners = new Set<Listener>();
+
+  constructor(initial: CallState = initialCallState) {
+    this.current = initial;
+  }
+
+  get state() {
+    return this.current;
+  }
+
+  send(event: CallEvent) {
+    const next = transition(this.current, event);
+    if (next === this.current) {
+      return;
+    }
+    console.log(`🧭 ${event.type}: ${this.current.phase} → ${next.phase}`);
+    this.current = next;
+    this.listeners.forEach((listener) => listener(next));
+  }
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.current;
+}
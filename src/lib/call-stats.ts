@@ -0,0 +1,164 @@
+// Connection quality from RTCPeerConnection.getStats(). The counters in a stats report are
+// totals since the connection started, so rates (bitrate, packet loss) come from the difference
+// between two consecutive reports; a collector keeps the previous totals for that.
+
+export const STATS_INTERVAL_MS = 1000;
+/** Samples kept per peer for the charts: one minute */
+export const STATS_HISTORY = 60;
+
+/** How the selected candidate pair reaches the peer, worst side wins */
+export type ConnectionType = "host" | "srflx" | "relay";
+
+export interface CallStatsSample {
+  /** Milliseconds since the epoch */
+  at: number;
+  /** kbit/s, all outgoing streams together */
+  sendBitrate: number;
+  /** kbit/s, all incoming streams together */
+  receiveBitrate: number;
+  /** Percentage of incoming packets lost since the previous sample */
+  packetLoss: number;
+  /** Milliseconds */
+  jitter: number | null;
+  /** Milliseconds, of the selected candidate pair */
+  rtt: number | null;
+  /** Of the incoming video */
+  framesPerSecond: number | null;
+  /** Of the incoming video, e.g. "1280×720" */
+  resolution: string | null;
+  /** Codecs in use in both directions, e.g. ["VP8", "opus"] */
+  codecs: string[];
+  connectionType: ConnectionType | null;
+}
+
+interface Totals {
+  at: number;
+  bytesSent: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+// Stats dictionaries are loosely typed in lib.dom; only the fields read here
+interface StatsEntry {
+  id: string;
+  type: string;
+  kind?: string;
+  bytesSent?: number;
+  bytesReceived?: number;
+  packetsReceived?: number;
+  packetsLost?: number;
+  jitter?: number;
+  framesPerSecond?: number;
+  frameWidth?: number;
+  frameHeight?: number;
+  codecId?: string;
+  mimeType?: string;
+  selectedCandidatePairId?: string;
+  selected?: boolean;
+  nominated?: boolean;
+  state?: string;
+  currentRoundTripTime?: number;
+  localCandidateId?: string;
+  remoteCandidateId?: string;
+  candidateType?: string;
+}
+
+const rate = (bytes: number, milliseconds: number) =>
+  milliseconds > 0 ? Math.max(Math.round((bytes * 8) / milliseconds), 0) : 0;
+
+const toConnectionType = (types: Array<string | undefined>): ConnectionType | null => {
+  if (types.includes("relay")) return "relay";
+  // Peer-reflexive candidates are found through NAT just like server-reflexive ones
+  if (types.includes("srflx") || types.includes("prflx")) return "srflx";
+  if (types.includes("host")) return "host";
+  return null;
+};
+
+// Chrome names the pair on the transport; Firefox flags it on the pair itself
+const selectedCandidatePair = (entries: Map<string, StatsEntry>) => {
+  const transport = [...entries.values()].find((entry) => entry.type === "transport" && entry.selectedCandidatePairId);
+  if (transport) {
+    return entries.get(transport.selectedCandidatePairId!);
+  }
+  return [...entries.values()].find((entry) =>
+    entry.type === "candidate-pair" && (entry.selected || (entry.nominated && entry.state === "succeeded")));
+};
+
+export class CallStatsCollector {
+  private pc: RTCPeerConnection;
+  private previous: Totals | null = null;
+
+  constructor(pc: RTCPeerConnection) {
+    this.pc = pc;
+  }
+
+  async sample(): Promise<CallStatsSample> {
+    const report = await this.pc.getStats();
+    const entries = new Map<string, StatsEntry>();
+    report.forEach((entry: StatsEntry) => entries.set(entry.id, entry));
+
+    const totals: Totals = { at: Date.now(), bytesSent: 0, bytesReceived: 0, packetsReceived: 0, packetsLost: 0 };
+    const codecIds = new Set<string>();
+    let jitter: number | null = null;
+    let video: StatsEntry | null = null;
+
+    for (const entry of entries.values()) {
+      if (entry.type === "outbound-rtp") {
+        totals.bytesSent += entry.bytesSent ?? 0;
+      } else if (entry.type === "inbound-rtp") {
+        totals.bytesReceived += entry.bytesReceived ?? 0;
+        totals.packetsReceived += entry.packetsReceived ?? 0;
+        totals.packetsLost += entry.packetsLost ?? 0;
+        if (typeof entry.jitter === "number") {
+          jitter = Math.max(jitter ?? 0, entry.jitter * 1000);
+        }
+        // The busiest incoming video, e.g. a shared screen over a paused camera
+        if (entry.kind === "video" && (entry.bytesReceived ?? 0) >= (video?.bytesReceived ?? 0)) {
+          video = entry;
+        }
+      } else {
+        continue;
+      }
+      if (entry.codecId) {
+        codecIds.add(entry.codecId);
+      }
+    }
+
+    const pair = selectedCandidatePair(entries);
+    const connectionType = pair
+      ? toConnectionType([
+        entries.get(pair.localCandidateId ?? "")?.candidateType,
+        entries.get(pair.remoteCandidateId ?? "")?.candidateType,
+      ])
+      : null;
+    const codecs = [...codecIds]
+      .map((id) => entries.get(id)?.mimeType?.split("/")[1])
+      .filter((codec): codec is string => !!codec);
+
+    const previous = this.previous;
+    this.previous = totals;
+    const elapsed = previous ? totals.at - previous.at : 0;
+    const received = previous ? totals.packetsReceived - previous.packetsReceived : 0;
+    const lost = previous ? Math.max(totals.packetsLost - previous.packetsLost, 0) : 0;
+
+    return {
+      at: totals.at,
+      sendBitrate: previous ? rate(totals.bytesSent - previous.bytesSent, elapsed) : 0,
+      receiveBitrate: previous ? rate(totals.bytesReceived - previous.bytesReceived, elapsed) : 0,
+      packetLoss: received + lost > 0 ? Math.round((lost / (received + lost)) * 1000) / 10 : 0,
+      jitter: jitter === null ? null : Math.round(jitter),
+      rtt: typeof pair?.currentRoundTripTime === "number" ? Math.round(pair.currentRoundTripTime * 1000) : null,
+      framesPerSecond: video?.framesPerSecond ?? null,
+      resolution: video?.frameWidth && video.frameHeight
+        ? `${video.frameWidth}×${video.frameHeight}`
+        : null,
+      codecs: [...new Set(codecs)],
+      connectionType,
+    };
+  }
+}
+
+/** History with the sample added, oldest dropped past STATS_HISTORY */
+export const appendSample = (history: CallStatsSample[], sample: CallStatsSample) =>
+  [...history, sample].slice(-STATS_HISTORY);
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { appendChatMessage, countUnread, type ChatMessage } from "./chat";
+
+const message = (id: string, own = false): ChatMessage => ({
+  id,
+  text: `message ${id}`,
+  sentAt: new Date(0).toISOString(),
+  author: { name: "Анна", hue: 200 },
+  own,
+});
+
+const history = (count: number, from = 0) =>
+  Array.from({ length: count }, (_, index) => message(String(from + index)));
+
+describe("countUnread", () => {
+  it("counts messages from others after the last one read", () => {
+    const messages = [message("a"), message("b"), message("c", true), message("d")];
+    expect(countUnread(messages, "a")).toBe(2);
+    expect(countUnread(messages, "d")).toBe(0);
+    expect(countUnread(messages, null)).toBe(3);
+  });
+
+  it("keeps counting once the history is full", () => {
+    let messages = history(500);
+    const lastReadId = messages[499].id;
+    history(30, 500).forEach((incoming) => {
+      messages = appendChatMessage(messages, incoming);
+    });
+    expect(messages).toHaveLength(500);
+    expect(countUnread(messages, lastReadId)).toBe(30);
+  });
+
+  it("counts the whole history when the last read message was dropped", () => {
+    let messages = history(10);
+    history(600, 10).forEach((incoming) => {
+      messages = appendChatMessage(messages, incoming);
+    });
+    expect(countUnread(messages, "9")).toBe(500);
+  });
+});
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { profileSchema, type ParticipantProfile } from "@/lib/participant";
+
+// In-call chat runs peer to peer over an ordered data channel on every peer connection, so
+// messages never touch the signaling server. Each message carries its author's name and color:
+// participant ids change on every reconnect, the history must not. Like presence, anything
+// received is validated before it reaches the UI.
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+// Keeps sessionStorage and the rendered list bounded in long calls
+const MAX_HISTORY = 500;
+
+export const chatMessageSchema = z.object({
+  id: z.string().min(1).max(64),
+  text: z.string().trim().min(1).max(MAX_CHAT_MESSAGE_LENGTH),
+  sentAt: z.string().datetime(),
+  author: profileSchema.pick({ name: true, hue: true }),
+});
+
+export type ChatMessage = z.infer<typeof chatMessageSchema> & {
+  /** Sent from this browser */
+  own?: boolean;
+};
+
+const historySchema = z.array(chatMessageSchema.extend({ own: z.boolean().optional() }));
+
+const historyKey = (roomId: string) => `chat-history:${roomId}`;
+
+export const createChatMessage = (text: string, profile: ParticipantProfile): ChatMessage => ({
+  id: nanoid(),
+  text: text.trim(),
+  sentAt: new Date().toISOString(),
+  author: { name: profile.name, hue: profile.hue },
+  own: true,
+});
+
+/** Wire form of a message; `own` only makes sense locally */
+export const serializeChatMessage = ({ id, text, sentAt, author }: ChatMessage) =>
+  JSON.stringify({ id, text, sentAt, author });
+
+/** Parses a data channel payload; returns null (and logs why) if it must be dropped */
+export const parseChatMessage = (data: unknown): ChatMessage | null => {
+  if (typeof data !== "string") {
+    console.warn("⚠️ Dropping binary chat message");
+    return null;
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    console.warn("⚠️ Dropping chat message that is not valid JSON");
+    return null;
+  }
+  const result = chatMessageSchema.safeParse(json);
+  if (!result.success) {
+    console.warn("⚠️ Dropping malformed chat message:", result.error.issues);
+    return null;
+  }
+  return result.data as ChatMessage;
+};
+
+// The history lives for the tab's session, so it survives reconnects and reloads of the room
+export const loadChatHistory = (roomId: string): ChatMessage[] => {
+  try {
+    const result = historySchema.safeParse(JSON.parse(sessionStorage.getItem(historyKey(roomId)) ?? "[]"));
+    return result.success ? (result.data as ChatMessage[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveChatHistory = (roomId: string, messages: ChatMessage[]) => {
+  try {
+    sessionStorage.setItem(historyKey(roomId), JSON.stringify(messages.slice(-MAX_HISTORY)));
+  } catch (error) {
+    console.warn("⚠️ Failed to save chat history:", error);
+  }
+};
+
+/** Adds a message in arrival order, ignoring one already in the history */
+export const appendChatMessage = (messages: ChatMessage[], message: ChatMessage) =>
+  messages.some((existing) => existing.id === message.id) ? messages : [...messages, message].slice(-MAX_HISTORY);
+
+/** Messages from others after the last one read; if that one was dropped from the history, all of them */
+export const countUnread = (messages: ChatMessage[], lastReadId: string | null) => {
+  const readIndex = lastReadId === null ? -1 : messages.findIndex((message) => message.id === lastReadId);
+  return messages.slice(readIndex + 1).filter((message) => !message.own).length;
+};
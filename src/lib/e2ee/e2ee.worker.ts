@@ -0,0 +1,133 @@
+// Encrypts outgoing and decrypts incoming encoded media frames with AES-GCM. The first bytes
+// of each frame stay in the clear (and are authenticated as additional data) so the RTP
+// packetizer still recognises it: the Opus TOC byte, or the VP8 payload header. Frame layout
+// on the wire: [clear header][ciphertext + tag][IV].
+
+type MediaKind = "audio" | "video";
+
+interface TransformOptions {
+  operation: "encrypt" | "decrypt";
+  kind: MediaKind;
+}
+
+interface EncodedStreams {
+  readable: ReadableStream<RTCEncodedAudioFrame | RTCEncodedVideoFrame>;
+  writable: WritableStream<RTCEncodedAudioFrame | RTCEncodedVideoFrame>;
+}
+
+type WorkerMessage =
+  | { type: "key"; key: CryptoKey }
+  | ({ type: "transform"; options: TransformOptions } & EncodedStreams);
+
+interface RTCTransformEvent extends Event {
+  transformer: EncodedStreams & { options: TransformOptions };
+}
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerMessage>) => void) | null;
+  onrtctransform: ((event: RTCTransformEvent) => void) | null;
+};
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+let key: CryptoKey | null = null;
+let lastDecryptWarning = 0;
+
+const clearByteCount = (frame: RTCEncodedAudioFrame | RTCEncodedVideoFrame, kind: MediaKind) => {
+  if (kind === "audio") {
+    return 1;
+  }
+  return (frame as RTCEncodedVideoFrame).type === "key" ? 10 : 3;
+};
+
+const encryptFrame = async (
+  frame: RTCEncodedAudioFrame | RTCEncodedVideoFrame,
+  kind: MediaKind,
+  controller: TransformStreamDefaultController<RTCEncodedAudioFrame | RTCEncodedVideoFrame>,
+) => {
+  // Nothing leaves unencrypted: frames produced before the key arrives are dropped
+  if (!key) {
+    return;
+  }
+  const data = new Uint8Array(frame.data);
+  if (data.length === 0) {
+    controller.enqueue(frame);
+    return;
+  }
+  const header = data.subarray(0, Math.min(clearByteCount(frame, kind), data.length));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: header }, key, data.subarray(header.length)),
+  );
+
+  const output = new Uint8Array(header.length + ciphertext.length + IV_LENGTH);
+  output.set(header);
+  output.set(ciphertext, header.length);
+  output.set(iv, header.length + ciphertext.length);
+  frame.data = output.buffer;
+  controller.enqueue(frame);
+};
+
+const decryptFrame = async (
+  frame: RTCEncodedAudioFrame | RTCEncodedVideoFrame,
+  kind: MediaKind,
+  controller: TransformStreamDefaultController<RTCEncodedAudioFrame | RTCEncodedVideoFrame>,
+) => {
+  if (!key) {
+    return;
+  }
+  const data = new Uint8Array(frame.data);
+  if (data.length === 0) {
+    controller.enqueue(frame);
+    return;
+  }
+  const headerLength = clearByteCount(frame, kind);
+  if (data.length < headerLength + TAG_LENGTH + IV_LENGTH) {
+    return;
+  }
+  const header = data.subarray(0, headerLength);
+  const iv = data.subarray(data.length - IV_LENGTH);
+  try {
+    const plaintext = new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv, additionalData: header },
+        key,
+        data.subarray(headerLength, data.length - IV_LENGTH),
+      ),
+    );
+    const output = new Uint8Array(headerLength + plaintext.length);
+    output.set(header);
+    output.set(plaintext, headerLength);
+    frame.data = output.buffer;
+    controller.enqueue(frame);
+  } catch {
+    // Wrong key or a tampered frame; never hand it to the decoder
+    if (Date.now() - lastDecryptWarning > 5000) {
+      lastDecryptWarning = Date.now();
+      console.warn(`⚠️ Dropping ${kind} frames that failed to decrypt`);
+    }
+  }
+};
+
+const pipe = ({ readable, writable }: EncodedStreams, { operation, kind }: TransformOptions) => {
+  const transform = operation === "encrypt" ? encryptFrame : decryptFrame;
+  readable
+    .pipeThrough(new TransformStream({ transform: (frame, controller) => transform(frame, kind, controller) }))
+    .pipeTo(writable)
+    .catch((error) => console.warn(`⚠️ ${operation} pipeline for ${kind} closed:`, error));
+};
+
+// RTCRtpScriptTransform (Safari, Firefox, recent Chrome)
+scope.onrtctransform = ({ transformer }) => {
+  pipe(transformer, transformer.options);
+};
+
+// Key delivery, and streams transferred from the legacy createEncodedStreams API
+scope.onmessage = ({ data }) => {
+  if (data.type === "key") {
+    key = data.key;
+  } else if (data.type === "transform") {
+    pipe(data, data.options);
+  }
+};
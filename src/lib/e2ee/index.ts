@@ -0,0 +1,81 @@
+// Optional end-to-end media encryption. Frames are encrypted in a worker before they reach
+// DTLS-SRTP, so TURN relays (or anything else on the path) only ever see ciphertext. The
+// AES-GCM key is derived from the room key in the link fragment, which never reaches a server.
+
+type LegacyEncodedStreams = { readable: ReadableStream; writable: WritableStream };
+
+// Chrome before RTCRtpScriptTransform: streams are taken on the main thread and moved to the worker
+type LegacyTransformable = { createEncodedStreams(): LegacyEncodedStreams };
+
+const hasScriptTransform = () => typeof window !== "undefined" && "RTCRtpScriptTransform" in window;
+
+const hasEncodedStreams = () =>
+  typeof RTCRtpSender !== "undefined" && "createEncodedStreams" in RTCRtpSender.prototype;
+
+export const isE2eeSupported = () => hasScriptTransform() || hasEncodedStreams();
+
+export const deriveMediaKey = async (roomId: string, roomKey: string) => {
+  const encoder = new TextEncoder();
+  const material = await crypto.subtle.importKey("raw", encoder.encode(roomKey), "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: encoder.encode(roomId), info: encoder.encode("media-e2ee") },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+};
+
+// The clear header layout in the worker assumes VP8; H.264 packetization would break on ciphertext
+const preferVp8 = (transceiver: RTCRtpTransceiver) => {
+  const codecs = RTCRtpReceiver.getCapabilities?.("video")?.codecs;
+  if (!codecs || !transceiver.setCodecPreferences) {
+    return;
+  }
+  const preferred = codecs.filter((codec) => /\/(VP8|rtx|red|ulpfec)$/i.test(codec.mimeType));
+  if (preferred.some((codec) => codec.mimeType.toLowerCase() === "video/vp8")) {
+    transceiver.setCodecPreferences(preferred);
+  }
+};
+
+export class MediaEncryption {
+  private worker: Worker;
+
+  constructor(key: Promise<CryptoKey>) {
+    this.worker = new Worker(new URL("./e2ee.worker.ts", import.meta.url), { type: "module" });
+    key.then(
+      (cryptoKey) => this.worker.postMessage({ type: "key", key: cryptoKey }),
+      (error) => console.error("❌ Failed to derive the media key:", error),
+    );
+  }
+
+  /** Peer connection settings the legacy encoded streams API needs from the start */
+  get configuration(): RTCConfiguration {
+    return hasScriptTransform() ? {} : ({ encodedInsertableStreams: true } as RTCConfiguration);
+  }
+
+  encryptSender(transceiver: RTCRtpTransceiver) {
+    const kind = transceiver.sender.track?.kind ?? transceiver.receiver.track.kind;
+    if (kind === "video") {
+      preferVp8(transceiver);
+    }
+    this.attach(transceiver.sender, { operation: "encrypt", kind });
+  }
+
+  decryptReceiver(receiver: RTCRtpReceiver) {
+    this.attach(receiver, { operation: "decrypt", kind: receiver.track.kind });
+  }
+
+  close() {
+    this.worker.terminate();
+  }
+
+  private attach(target: RTCRtpSender | RTCRtpReceiver, options: { operation: string; kind: string }) {
+    if (hasScriptTransform()) {
+      target.transform = new RTCRtpScriptTransform(this.worker, options);
+      return;
+    }
+    const { readable, writable } = (target as unknown as LegacyTransformable).createEncodedStreams();
+    this.worker.postMessage({ type: "transform", options, readable, writable }, [readable, writable]);
+  }
+}
@@ -0,0 +1,406 @@
+import { z } from "zod";
+import { nanoid } from "nanoid";
+
+// File transfer over a dedicated, ordered data channel per peer connection. Control messages
+// are JSON strings, file contents are binary chunks. The sender offers a file with its size and
+// SHA-256; nothing flows until the receiver accepts. Accepted files are streamed one at a time
+// in each direction, announced by a "start" message, so every chunk belongs to the current
+// transfer. The receiver verifies the checksum before it offers the file for download.
+//
+// Interrupted downloads keep what they received for the rest of the page session. When the same
+// peer offers the same file (same checksum) again, the receiver accepts from where it stopped.
+
+export const MAX_FILE_SIZE = 200 * 1024 * 1024;
+
+// Below the 16 KiB every browser can send in one SCTP message
+const CHUNK_SIZE = 16 * 1024;
+// Backpressure: pause above the high mark until the buffer drains to the low one
+const BUFFER_HIGH = 4 * 1024 * 1024;
+const BUFFER_LOW = 1024 * 1024;
+
+const transferId = z.string().min(1).max(64);
+const offset = z.number().int().nonnegative();
+
+const controlSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("offer"),
+    id: transferId,
+    name: z.string().min(1).max(255),
+    size: z.number().int().nonnegative().max(MAX_FILE_SIZE),
+    mime: z.string().max(255),
+    sha256: z.string().regex(/^[0-9a-f]{64}$/),
+  }),
+  z.object({ type: z.literal("accept"), id: transferId, offset }),
+  z.object({ type: z.literal("decline"), id: transferId }),
+  z.object({ type: z.literal("start"), id: transferId, offset }),
+  z.object({ type: z.literal("cancel"), id: transferId }),
+  z.object({ type: z.literal("result"), id: transferId, ok: z.boolean() }),
+]);
+
+type ControlMessage = z.infer<typeof controlSchema>;
+
+export type TransferStatus =
+  | "pending"
+  | "declined"
+  | "transferring"
+  | "verifying"
+  | "done"
+  | "failed"
+  | "cancelled"
+  | "interrupted";
+
+export interface FileTransfer {
+  id: string;
+  direction: "incoming" | "outgoing";
+  peerId: string;
+  peerName: string;
+  name: string;
+  size: number;
+  mime: string;
+  sha256: string;
+  /** Bytes sent or received so far, including a resumed prefix */
+  transferred: number;
+  status: TransferStatus;
+  /** Object URL of a verified download */
+  url?: string;
+}
+
+const FINAL_STATUSES: TransferStatus[] = ["declined", "done", "failed", "cancelled", "interrupted"];
+
+export const isTransferFinished = (transfer: FileTransfer) => FINAL_STATUSES.includes(transfer.status);
+
+export const hashFile = async (data: Blob) => {
+  const digest = await crypto.subtle.digest("SHA-256", await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+interface PartialDownload {
+  chunks: ArrayBuffer[];
+  received: number;
+}
+
+// Received prefixes of interrupted downloads, by sender and checksum. They outlive the channel so
+// a reconnected peer can resume; two peers sending the same file each fill their own.
+const partials = new Map<string, PartialDownload>();
+
+const partialKey = ({ peerId, sha256 }: FileTransfer) => `${peerId}:${sha256}`;
+
+interface Incoming {
+  transfer: FileTransfer;
+  partial: PartialDownload;
+}
+
+export class FileTransferChannel {
+  private channel: RTCDataChannel;
+  private peerId: string;
+  private peerName: string;
+  private onUpdate: (transfer: FileTransfer) => void;
+  private transfers = new Map<string, FileTransfer>();
+  private files = new Map<string, File>();
+  private outbound: Promise<void> = Promise.resolve();
+  private incoming: Incoming | null = null;
+  private closed = false;
+
+  constructor(channel: RTCDataChannel, peerId: string, peerName: string, onUpdate: (transfer: FileTransfer) => void) {
+    this.channel = channel;
+    this.peerId = peerId;
+    this.peerName = peerName;
+    this.onUpdate = onUpdate;
+    channel.binaryType = "arraybuffer";
+    channel.bufferedAmountLowThreshold = BUFFER_LOW;
+    channel.addEventListener("message", this.handleMessage);
+    channel.addEventListener("close", this.close);
+  }
+
+  get isOpen() {
+    return this.channel.readyState === "open";
+  }
+
+  /** Offers a file; `sha256` comes from hashFile, computed once for all peers */
+  offer(file: File, sha256: string) {
+    const transfer: FileTransfer = {
+      id: nanoid(),
+      direction: "outgoing",
+      peerId: this.peerId,
+      peerName: this.peerName,
+      name: file.name,
+      size: file.size,
+      mime: file.type,
+      sha256,
+      transferred: 0,
+      status: "pending",
+    };
+    this.files.set(transfer.id, file);
+    this.update(transfer);
+    console.log("📎 Offering file to", this.peerId, file.name);
+    this.sendControl({ type: "offer", id: transfer.id, name: file.name, size: file.size, mime: file.type, sha256 });
+  }
+
+  accept(id: string) {
+    const transfer = this.transfers.get(id);
+    if (transfer?.direction !== "incoming" || transfer.status !== "pending") {
+      return;
+    }
+    const resumeFrom = partials.get(partialKey(transfer))?.received ?? 0;
+    if (resumeFrom > 0) {
+      console.log(`📎 Resuming ${transfer.name} from byte ${resumeFrom}`);
+    }
+    this.update({ ...transfer, status: "transferring", transferred: resumeFrom });
+    this.sendControl({ type: "accept", id, offset: resumeFrom });
+  }
+
+  decline(id: string) {
+    const transfer = this.transfers.get(id);
+    if (transfer?.direction !== "incoming" || transfer.status !== "pending") {
+      return;
+    }
+    this.update({ ...transfer, status: "declined" });
+    this.sendControl({ type: "decline", id });
+  }
+
+  cancel(id: string) {
+    const transfer = this.transfers.get(id);
+    if (!transfer || isTransferFinished(transfer)) {
+      return;
+    }
+    this.finishCancelled(transfer);
+    this.sendControl({ type: "cancel", id });
+  }
+
+  // Unfinished transfers stop here; downloads keep their received prefix for a resume
+  close = () => {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.channel.removeEventListener("message", this.handleMessage);
+    this.channel.removeEventListener("close", this.close);
+    this.incoming = null;
+    this.files.clear();
+    this.transfers.forEach((transfer) => {
+      if (!isTransferFinished(transfer)) {
+        this.update({ ...transfer, status: "interrupted" });
+      }
+    });
+  };
+
+  private update(transfer: FileTransfer) {
+    this.transfers.set(transfer.id, transfer);
+    this.onUpdate(transfer);
+  }
+
+  private sendControl(message: ControlMessage) {
+    if (this.isOpen) {
+      this.channel.send(JSON.stringify(message));
+    }
+  }
+
+  private finishCancelled(transfer: FileTransfer) {
+    this.files.delete(transfer.id);
+    if (this.incoming?.transfer.id === transfer.id) {
+      this.incoming = null;
+    }
+    if (transfer.direction === "incoming") {
+      partials.delete(partialKey(transfer));
+    }
+    this.update({ ...transfer, status: "cancelled" });
+  }
+
+  private handleMessage = ({ data }: MessageEvent) => {
+    if (data instanceof ArrayBuffer) {
+      this.receiveChunk(data);
+      return;
+    }
+    let json: unknown;
+    try {
+      json = JSON.parse(data);
+    } catch {
+      console.warn("⚠️ Dropping file transfer message that is not valid JSON");
+      return;
+    }
+    const result = controlSchema.safeParse(json);
+    if (!result.success) {
+      console.warn("⚠️ Dropping malformed file transfer message:", result.error.issues);
+      return;
+    }
+    this.handleControl(result.data as ControlMessage);
+  };
+
+  private handleControl(message: ControlMessage) {
+    const transfer = this.transfers.get(message.id);
+
+    switch (message.type) {
+      case "offer":
+        if (transfer) {
+          return;
+        }
+        console.log("📎 File offered by", this.peerId, message.name);
+        this.update({
+          id: message.id,
+          direction: "incoming",
+          peerId: this.peerId,
+          peerName: this.peerName,
+          name: message.name,
+          size: message.size,
+          mime: message.mime,
+          sha256: message.sha256,
+          transferred: 0,
+          status: "pending",
+        });
+        return;
+
+      case "accept": {
+        const file = this.files.get(message.id);
+        if (transfer?.direction !== "outgoing" || transfer.status !== "pending" || !file) {
+          return;
+        }
+        if (message.offset > file.size) {
+          console.warn("⚠️ Resume offset past the end of", file.name);
+          this.update({ ...transfer, status: "failed" });
+          return;
+        }
+        this.update({ ...transfer, status: "transferring", transferred: message.offset });
+        this.outbound = this.outbound
+          .then(() => this.stream(message.id, file, message.offset))
+          .catch((error) => {
+            console.error("❌ Failed to send", file.name, error);
+            const current = this.transfers.get(message.id);
+            if (current && !isTransferFinished(current)) {
+              this.update({ ...current, status: this.closed ? "interrupted" : "failed" });
+            }
+          });
+        return;
+      }
+
+      case "decline":
+        if (transfer?.direction === "outgoing" && transfer.status === "pending") {
+          this.files.delete(message.id);
+          this.update({ ...transfer, status: "declined" });
+        }
+        return;
+
+      case "start": {
+        if (transfer?.direction !== "incoming" || transfer.status !== "transferring") {
+          return;
+        }
+        const partial = partials.get(partialKey(transfer)) ?? { chunks: [], received: 0 };
+        if (partial.received !== message.offset) {
+          console.warn(`⚠️ ${transfer.name} starts at byte ${message.offset}, expected ${partial.received}`);
+          this.update({ ...transfer, status: "failed" });
+          this.sendControl({ type: "cancel", id: transfer.id });
+          return;
+        }
+        partials.set(partialKey(transfer), partial);
+        this.incoming = { transfer, partial };
+        if (partial.received === transfer.size) {
+          this.verify(this.incoming);
+        }
+        return;
+      }
+
+      case "cancel":
+        if (transfer && !isTransferFinished(transfer)) {
+          console.log("📎 Transfer cancelled by", this.peerId, transfer.name);
+          this.finishCancelled(transfer);
+        }
+        return;
+
+      case "result":
+        if (transfer?.direction === "outgoing" && transfer.status === "verifying") {
+          this.files.delete(message.id);
+          this.update({ ...transfer, status: message.ok ? "done" : "failed" });
+        }
+        return;
+    }
+  }
+
+  private receiveChunk(chunk: ArrayBuffer) {
+    const incoming = this.incoming;
+    if (!incoming) {
+      // Chunks still in flight when a transfer was cancelled
+      return;
+    }
+    const { transfer, partial } = incoming;
+    partial.chunks.push(chunk);
+    partial.received += chunk.byteLength;
+
+    if (partial.received > transfer.size) {
+      console.warn("⚠️ Received more than announced for", transfer.name);
+      this.incoming = null;
+      partials.delete(partialKey(transfer));
+      this.update({ ...transfer, status: "failed" });
+      this.sendControl({ type: "cancel", id: transfer.id });
+    } else if (partial.received === transfer.size) {
+      this.verify(incoming);
+    } else if (progressStep(transfer.transferred, transfer.size) !== progressStep(partial.received, transfer.size)) {
+      incoming.transfer = { ...transfer, transferred: partial.received };
+      this.update(incoming.transfer);
+    }
+  }
+
+  private async verify({ transfer, partial }: Incoming) {
+    this.incoming = null;
+    partials.delete(partialKey(transfer));
+    this.update({ ...transfer, transferred: transfer.size, status: "verifying" });
+
+    const blob = new Blob(partial.chunks, { type: transfer.mime });
+    const ok = (await hashFile(blob)) === transfer.sha256;
+    if (this.transfers.get(transfer.id)?.status !== "verifying") {
+      return;
+    }
+    console.log(ok ? "✅ Checksum verified:" : "❌ Checksum mismatch:", transfer.name);
+    this.update({
+      ...transfer,
+      transferred: transfer.size,
+      status: ok ? "done" : "failed",
+      url: ok ? URL.createObjectURL(blob) : undefined,
+    });
+    this.sendControl({ type: "result", id: transfer.id, ok });
+  }
+
+  private async stream(id: string, file: File, from: number) {
+    const active = () => !this.closed && this.transfers.get(id)?.status === "transferring";
+    if (!active()) {
+      return;
+    }
+    console.log(`📤 Sending ${file.name} to ${this.peerId} from byte ${from}`);
+    this.sendControl({ type: "start", id, offset: from });
+
+    let sent = from;
+    while (sent < file.size) {
+      if (this.channel.bufferedAmount > BUFFER_HIGH) {
+        await this.drained();
+      }
+      if (!active()) {
+        return;
+      }
+      const chunk = await file.slice(sent, sent + CHUNK_SIZE).arrayBuffer();
+      this.channel.send(chunk);
+      const previous = sent;
+      sent += chunk.byteLength;
+      if (progressStep(previous, file.size) !== progressStep(sent, file.size)) {
+        this.update({ ...this.transfers.get(id)!, transferred: sent });
+      }
+    }
+    if (!active()) {
+      return;
+    }
+    // Done once the receiver confirms the checksum
+    this.update({ ...this.transfers.get(id)!, transferred: file.size, status: "verifying" });
+  }
+
+  private drained() {
+    return new Promise<void>((resolve) => {
+      const done = () => {
+        this.channel.removeEventListener("bufferedamountlow", done);
+        this.channel.removeEventListener("close", done);
+        resolve();
+      };
+      this.channel.addEventListener("bufferedamountlow", done);
+      this.channel.addEventListener("close", done);
+    });
+  }
+}
+
+// Progress is reported in whole percents, not on every chunk
+const progressStep = (bytes: number, size: number) => (size === 0 ? 100 : Math.floor((bytes / size) * 100));
@@ -0,0 +1,100 @@
+import { z } from "zod";
+
+// The host role belongs to the browser that created the room. Creating a meeting generates an
+// ECDSA key pair: the private key stays in this browser's localStorage, the public key travels
+// in the link fragment next to the room key. The host signs its join decisions and its own
+// presence, so guests can tell the creator apart from anyone repeating what it publishes.
+
+const ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const;
+const SIGNATURE = { name: "ECDSA", hash: "SHA-256" } as const;
+
+const storageKey = (roomId: string) => `host-key:${roomId}`;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, "+").replace(/_/g, "/")), (char) => char.charCodeAt(0));
+
+/**
+ * What the host vouches for, e.g. ["host", clientId] or ["join_approved", joinerId, hostId].
+ * Bound to the room, so a signature from one meeting means nothing in another.
+ */
+export type HostStatement = string[];
+
+/** What an admitted guest publishes in presence: the approval the host signed for it */
+export const admissionSchema = z.object({
+  hostId: z.string().min(1).max(64),
+  proof: z.string().max(200),
+});
+
+export type Admission = z.infer<typeof admissionSchema>;
+
+const statementBytes = (roomId: string, statement: HostStatement) => encoder.encode([roomId, ...statement].join("\n"));
+
+/** Generates the room's host key pair and returns the public key for the link */
+export const createHostKey = async (roomId: string) => {
+  const { privateKey, publicKey } = await crypto.subtle.generateKey(ALGORITHM, true, ["sign", "verify"]);
+  localStorage.setItem(storageKey(roomId), JSON.stringify(await crypto.subtle.exportKey("jwk", privateKey)));
+  return toBase64Url(await crypto.subtle.exportKey("raw", publicKey));
+};
+
+/** The private host key, or null in every browser but the one that created the room */
+export const getHostSigningKey = async (roomId: string) => {
+  const stored = localStorage.getItem(storageKey(roomId));
+  if (!stored) {
+    return null;
+  }
+  try {
+    return await crypto.subtle.importKey("jwk", JSON.parse(stored), ALGORITHM, false, ["sign"]);
+  } catch (error) {
+    console.warn("⚠️ Stored host key is unusable:", error);
+    return null;
+  }
+};
+
+export const signAsHost = async (key: CryptoKey, roomId: string, statement: HostStatement) =>
+  toBase64Url(await crypto.subtle.sign(SIGNATURE, key, statementBytes(roomId, statement)));
+
+// Checks statements against the public key from the link. Presence is re-read on every sync,
+// so results are kept per statement and signature instead of verifying the same proof again.
+export class HostVerifier {
+  private roomId: string;
+  private key: Promise<CryptoKey | null>;
+  private results = new Map<string, Promise<boolean>>();
+
+  constructor(roomId: string, publicKey: string) {
+    this.roomId = roomId;
+    this.key = crypto.subtle
+      .importKey("raw", fromBase64Url(publicKey), ALGORITHM, false, ["verify"])
+      .catch((error) => {
+        console.error("❌ Host key from the link is invalid:", error);
+        return null;
+      });
+  }
+
+  verify(statement: HostStatement, signature: unknown): Promise<boolean> {
+    if (typeof signature !== "string" || signature.length > 200) {
+      return Promise.resolve(false);
+    }
+    const id = JSON.stringify([statement, signature]);
+    let result = this.results.get(id);
+    if (!result) {
+      result = this.key.then(async (key) => {
+        if (!key) {
+          return false;
+        }
+        try {
+          return await crypto.subtle.verify(SIGNATURE, key, fromBase64Url(signature), statementBytes(this.roomId, statement));
+        } catch {
+          // Not valid base64
+          return false;
+        }
+      });
+      this.results.set(id, result);
+    }
+    return result;
+  }
+}
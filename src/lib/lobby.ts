@@ -0,0 +1,41 @@
+import { z } from "zod";
+import type { PresenceState } from "@/lib/signaling";
+import { profileFromMeta, UNKNOWN_PARTICIPANT, type ParticipantProfile } from "@/lib/participant";
+
+// The waiting room is derived from presence: a guest knocks by publishing a `knock` next to
+// its profile in presence metadata and stays in the queue until the host admits it (it
+// re-tracks as approved) or it leaves. Every participant computes the same queue, ordered by
+// knock time.
+
+export const knockSchema = z.object({
+  message: z.string().trim().max(200).optional(),
+  at: z.string().datetime(),
+});
+
+export type Knock = z.infer<typeof knockSchema>;
+
+export interface LobbyEntry extends Knock {
+  id: string;
+  profile: ParticipantProfile;
+}
+
+export const lobbyQueue = (state: PresenceState): LobbyEntry[] =>
+  Object.entries(state)
+    .flatMap(([id, metas]) => {
+      if (metas.some((meta) => meta.approved === true)) {
+        return [];
+      }
+      // Presence metadata comes from other clients; ignore anything that does not validate
+      const knock = metas.map((meta) => knockSchema.safeParse(meta.knock)).find((result) => result.success);
+      if (!knock?.success) {
+        return [];
+      }
+      return [{ ...knock.data, id, profile: profileFromMeta(metas) ?? UNKNOWN_PARTICIPANT } as LobbyEntry];
+    })
+    .sort((a, b) => a.at.localeCompare(b.at) || a.id.localeCompare(b.id));
+
+/** 1-based position in the queue, or null if not waiting */
+export const queuePosition = (queue: LobbyEntry[], id: string) => {
+  const index = queue.findIndex((entry) => entry.id === id);
+  return index === -1 ? null : index + 1;
+};
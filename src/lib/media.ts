@@ -0,0 +1,55 @@
+// Capture settings shared by the pre-join preview and the call.
+
+export interface MediaDeviceSelection {
+  videoInputId?: string;
+  audioInputId?: string;
+  audioOutputId?: string;
+}
+
+const VIDEO_CONSTRAINTS: MediaTrackConstraints = {
+  width: { ideal: 1280, max: 1920 },
+  height: { ideal: 720, max: 1080 },
+  frameRate: { ideal: 30, max: 30 },
+  facingMode: "user",
+};
+
+const AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  sampleRate: 48000,
+};
+
+export const videoConstraints = ({ videoInputId }: MediaDeviceSelection): MediaTrackConstraints =>
+  videoInputId ? { ...VIDEO_CONSTRAINTS, facingMode: undefined, deviceId: { exact: videoInputId } } : VIDEO_CONSTRAINTS;
+
+export const audioConstraints = ({ audioInputId }: MediaDeviceSelection): MediaTrackConstraints =>
+  audioInputId ? { ...AUDIO_CONSTRAINTS, deviceId: { exact: audioInputId } } : AUDIO_CONSTRAINTS;
+
+/** Camera and microphone with the preferred quality, falling back to whatever the browser allows */
+export const getLocalMedia = async (selection: MediaDeviceSelection = {}) => {
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: videoConstraints(selection),
+      audio: audioConstraints(selection),
+    });
+  } catch (error) {
+    console.warn('⚠️ Failed with ideal constraints, trying basic...', error);
+    return navigator.mediaDevices.getUserMedia({
+      video: selection.videoInputId ? { deviceId: selection.videoInputId } : true,
+      audio: selection.audioInputId ? { deviceId: selection.audioInputId } : true,
+    });
+  }
+};
+
+/** Route an element's audio to the chosen speaker where the browser supports it */
+export const applyAudioOutput = async (element: HTMLMediaElement, audioOutputId?: string) => {
+  if (!audioOutputId || !("setSinkId" in element)) {
+    return;
+  }
+  try {
+    await (element as HTMLMediaElement & { setSinkId(id: string): Promise<void> }).setSinkId(audioOutputId);
+  } catch (error) {
+    console.warn('⚠️ Failed to switch audio output:', error);
+  }
+};
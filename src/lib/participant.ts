@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { isE2eeSupported } from "@/lib/e2ee";
+import type { PresenceMeta, PresenceState } from "@/lib/signaling";
+
+// Who a participant is, published in presence next to the call flags. Like knocks, profiles
+// come from other clients and are validated before they reach the UI.
+
+export const capabilitiesSchema = z.object({
+  e2ee: z.boolean(),
+  screenShare: z.boolean(),
+  audioOutput: z.boolean(),
+});
+
+export const profileSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  /** Avatar background as an HSL hue, so it fits both themes */
+  hue: z.number().int().min(0).max(359),
+  capabilities: capabilitiesSchema,
+});
+
+export type ParticipantCapabilities = z.infer<typeof capabilitiesSchema>;
+
+export type ParticipantProfile = z.infer<typeof profileSchema>;
+
+export const UNKNOWN_PARTICIPANT: ParticipantProfile = {
+  name: "Участник",
+  hue: 210,
+  capabilities: { e2ee: false, screenShare: false, audioOutput: false },
+};
+
+export const detectCapabilities = (): ParticipantCapabilities => ({
+  e2ee: isE2eeSupported(),
+  screenShare: typeof navigator.mediaDevices?.getDisplayMedia === "function",
+  audioOutput: "setSinkId" in HTMLMediaElement.prototype,
+});
+
+// Same name, same color on every screen
+const hueFor = (name: string) =>
+  [...name].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7) % 360;
+
+export const createProfile = (name: string): ParticipantProfile => ({
+  name,
+  hue: hueFor(name),
+  capabilities: detectCapabilities(),
+});
+
+export const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => [...word][0].toUpperCase())
+    .join("") || "?";
+
+export const profileFromMeta = (metas: PresenceMeta[] = []): ParticipantProfile | null => {
+  for (const meta of metas) {
+    const result = profileSchema.safeParse(meta.profile);
+    if (result.success) {
+      return result.data as ParticipantProfile;
+    }
+  }
+  return null;
+};
+
+export const profileOf = (state: PresenceState, key: string) => profileFromMeta(state[key]) ?? UNKNOWN_PARTICIPANT;
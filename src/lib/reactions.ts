@@ -0,0 +1,47 @@
+import { z } from "zod";
+import type { PresenceState } from "@/lib/signaling";
+import { profileOf, type ParticipantProfile } from "@/lib/participant";
+
+// Reactions are fire-and-forget signaling broadcasts, shown for a moment on the sender's tile.
+// A raised hand is sticky, so it lives in presence next to the other call flags: it survives
+// reconnects, and everyone (the host in particular) derives the same ordered list from it.
+
+export const REACTIONS = ["👍", "👏", "😂", "❤️", "🎉", "😮"] as const;
+
+export type Reaction = (typeof REACTIONS)[number];
+
+/** How long a reaction stays on the tile; matches the float-up animation */
+export const REACTION_DURATION_MS = 3000;
+
+export interface ReactionBurst {
+  id: number;
+  emoji: Reaction;
+}
+
+export interface RaisedHand {
+  id: string;
+  profile: ParticipantProfile;
+  at: string;
+}
+
+const raisedAt = z.string().datetime();
+
+/** When a participant raised their hand, or null */
+export const handRaisedAt = (state: PresenceState, key: string) => {
+  for (const meta of state[key] ?? []) {
+    const result = raisedAt.safeParse(meta.handRaisedAt);
+    if (result.success) {
+      return result.data;
+    }
+  }
+  return null;
+};
+
+/** Raised hands in the order they went up */
+export const raisedHands = (state: PresenceState): RaisedHand[] =>
+  Object.keys(state)
+    .flatMap((id) => {
+      const at = handRaisedAt(state, id);
+      return at ? [{ id, at, profile: profileOf(state, id) }] : [];
+    })
+    .sort((a, b) => a.at.localeCompare(b.at) || a.id.localeCompare(b.id));
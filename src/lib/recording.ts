@@ -0,0 +1,174 @@
+// Local call recording: every participant's video is drawn into a grid on a canvas and all
+// audio is mixed through Web Audio, and the canvas and mix are recorded together with
+// MediaRecorder. Sources can change while recording (people join and leave, tracks get
+// swapped); the recording keeps running.
+
+export interface RecordingSource {
+  id: string;
+  stream: MediaStream | null;
+  label: string;
+}
+
+interface SourceNodes {
+  stream: MediaStream | null;
+  label: string;
+  video: HTMLVideoElement;
+  audio: MediaStreamAudioSourceNode | null;
+}
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FRAME_RATE = 30;
+const GAP = 8;
+
+const MIME_TYPES = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"];
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== "undefined" && "captureStream" in HTMLCanvasElement.prototype;
+
+export const recordingFileName = (roomId: string, startedAt: Date) =>
+  `call-${roomId}-${startedAt.toISOString().slice(0, 19).replace(/[T:]/g, "-")}.webm`;
+
+export class CallRecorder {
+  private canvas = document.createElement("canvas");
+  private context: CanvasRenderingContext2D;
+  private audioContext = new AudioContext();
+  private mix: MediaStreamAudioDestinationNode;
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private sources = new Map<string, SourceNodes>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    this.canvas.width = WIDTH;
+    this.canvas.height = HEIGHT;
+    this.context = this.canvas.getContext("2d")!;
+    this.mix = this.audioContext.createMediaStreamDestination();
+
+    const stream = new MediaStream([
+      ...this.canvas.captureStream(FRAME_RATE).getVideoTracks(),
+      ...this.mix.stream.getAudioTracks(),
+    ]);
+    const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 2_500_000 });
+    this.recorder.ondataavailable = ({ data }) => {
+      if (data.size > 0) {
+        this.chunks.push(data);
+      }
+    };
+  }
+
+  start() {
+    console.log("⏺️ Recording started:", this.recorder.mimeType);
+    // A timer instead of requestAnimationFrame, which stops in background tabs
+    this.timer = setInterval(this.draw, 1000 / FRAME_RATE);
+    // Created outside the click that started the recording, so it may start suspended
+    this.audioContext.resume();
+    this.recorder.start(1000);
+  }
+
+  setSources(sources: RecordingSource[]) {
+    const ids = new Set(sources.map((source) => source.id));
+    this.sources.forEach((_, id) => {
+      if (!ids.has(id)) {
+        this.removeSource(id);
+      }
+    });
+    sources.forEach((source) => {
+      const current = this.sources.get(source.id);
+      if (current?.stream === source.stream) {
+        current.label = source.label;
+        return;
+      }
+      this.removeSource(source.id);
+      this.sources.set(source.id, this.createSource(source));
+    });
+  }
+
+  /** Resolves with the whole recording once the last chunk is flushed */
+  async stop() {
+    if (this.recorder.state !== "inactive") {
+      await new Promise((resolve) => {
+        this.recorder.onstop = resolve;
+        this.recorder.stop();
+      });
+    }
+    this.dispose();
+    console.log("⏹️ Recording stopped");
+    return new Blob(this.chunks, { type: this.recorder.mimeType || "video/webm" });
+  }
+
+  private createSource({ stream, label }: RecordingSource): SourceNodes {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    let audio: MediaStreamAudioSourceNode | null = null;
+    if (stream) {
+      video.srcObject = stream;
+      video.play().catch((error) => console.warn("⚠️ Recording source did not start:", error));
+      if (stream.getAudioTracks().length > 0) {
+        audio = this.audioContext.createMediaStreamSource(stream);
+        audio.connect(this.mix);
+      }
+    }
+    return { stream, label, video, audio };
+  }
+
+  private removeSource(id: string) {
+    const source = this.sources.get(id);
+    if (!source) {
+      return;
+    }
+    source.audio?.disconnect();
+    source.video.srcObject = null;
+    this.sources.delete(id);
+  }
+
+  private dispose() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    [...this.sources.keys()].forEach((id) => this.removeSource(id));
+    this.audioContext.close();
+  }
+
+  private draw = () => {
+    const { context } = this;
+    const tiles = [...this.sources.values()];
+    context.fillStyle = "#000";
+    context.fillRect(0, 0, WIDTH, HEIGHT);
+    if (tiles.length === 0) {
+      return;
+    }
+
+    const columns = Math.ceil(Math.sqrt(tiles.length));
+    const rows = Math.ceil(tiles.length / columns);
+    const cellWidth = (WIDTH - GAP * (columns + 1)) / columns;
+    const cellHeight = (HEIGHT - GAP * (rows + 1)) / rows;
+
+    tiles.forEach(({ video, label }, index) => {
+      const x = GAP + (index % columns) * (cellWidth + GAP);
+      const y = GAP + Math.floor(index / columns) * (cellHeight + GAP);
+      context.fillStyle = "#1f2937";
+      context.fillRect(x, y, cellWidth, cellHeight);
+
+      const hasVideo = video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0;
+      if (hasVideo) {
+        // Fit the whole frame into the cell, like the "contain" tiles
+        const scale = Math.min(cellWidth / video.videoWidth, cellHeight / video.videoHeight);
+        const width = video.videoWidth * scale;
+        const height = video.videoHeight * scale;
+        context.drawImage(video, x + (cellWidth - width) / 2, y + (cellHeight - height) / 2, width, height);
+      }
+
+      context.font = "20px sans-serif";
+      context.textBaseline = "bottom";
+      const labelWidth = context.measureText(label).width;
+      context.fillStyle = "rgba(0, 0, 0, 0.6)";
+      context.fillRect(x + 8, y + cellHeight - 38, labelWidth + 16, 30);
+      context.fillStyle = "#fff";
+      context.fillText(label, x + 16, y + cellHeight - 12);
+    });
+  };
+}
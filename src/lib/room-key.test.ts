@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { parseRoomSecrets, roomPath } from "./room-key";
+
+const key = "k".repeat(32);
+const hostKey = "h".repeat(87);
+
+describe("parseRoomSecrets", () => {
+  it("reads back what roomPath writes", () => {
+    const path = roomPath("room", { key, hostKey, e2ee: true });
+    expect(parseRoomSecrets(path.slice(path.indexOf("#")))).toEqual({ key, hostKey, e2ee: true });
+    expect(parseRoomSecrets(`#${key}.${hostKey}`)).toEqual({ key, hostKey, e2ee: false });
+  });
+
+  it("rejects links without the room or host key", () => {
+    expect(parseRoomSecrets("")).toBeNull();
+    expect(parseRoomSecrets(`#${key}`)).toBeNull();
+    expect(parseRoomSecrets(`#${key.slice(1)}.${hostKey}`)).toBeNull();
+    expect(parseRoomSecrets(`#${key}.${hostKey.slice(1)}`)).toBeNull();
+  });
+
+  it("rejects a malformed escape instead of throwing", () => {
+    expect(parseRoomSecrets(`#${key}.${hostKey}%E0%A4%A`)).toBeNull();
+    expect(parseRoomSecrets("#%")).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import { nanoid } from "nanoid";
+
+// Room links carry secrets in the URL fragment: `/room/<id>#<key>.<host key>`, with `&e2ee`
+// appended for rooms with end-to-end media encryption. The key is shared by everyone in the
+// room; the host key is the public half of the creator's key pair (see host.ts). Browsers
+// never send the fragment to a server, so only people who received the link can derive the
+// signaling and media keys or check the host's signatures.
+
+const ROOM_KEY_LENGTH = 32;
+
+export const createRoomKey = () => nanoid(ROOM_KEY_LENGTH);
+
+export interface RoomSecrets {
+  key: string;
+  /** Base64url of the raw P-256 public key the host signs with */
+  hostKey: string;
+  e2ee: boolean;
+}
+
+const E2EE_FLAG = "e2ee";
+
+// Uncompressed P-256 point, 65 bytes
+const HOST_KEY_PATTERN = /^[A-Za-z0-9_-]{87}$/;
+
+export const roomPath = (roomId: string, { key, hostKey, e2ee }: RoomSecrets) =>
+  `/room/${roomId}#${key}.${hostKey}${e2ee ? `&${E2EE_FLAG}` : ""}`;
+
+export const roomLink = (roomId: string, secrets: RoomSecrets) => `${window.location.origin}${roomPath(roomId, secrets)}`;
+
+/** Secrets from a location hash, or null if the link was shared without a key */
+export const parseRoomSecrets = (hash: string): RoomSecrets | null => {
+  let fragment: string;
+  try {
+    fragment = decodeURIComponent(hash.replace(/^#/, ""));
+  } catch {
+    // Malformed escape, e.g. a link cut off in the middle of "%20"
+    return null;
+  }
+  const [keys = "", ...flags] = fragment.split("&");
+  const [key = "", hostKey = ""] = keys.split(".");
+  if (key.length < ROOM_KEY_LENGTH || !HOST_KEY_PATTERN.test(hostKey)) {
+    return null;
+  }
+  return { key, hostKey, e2ee: flags.includes(E2EE_FLAG) };
+};
@@ -0,0 +1,30 @@
+// Minimal keyed listener registry shared by the transport implementations.
+export class Emitter<T = unknown> {
+  private listeners = new Map<string, Set<(value: T) => void>>();
+
+  on(key: string, listener: (value: T) => void): () => void {
+    let set = this.listeners.get(key);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(key, set);
+    }
+    set.add(listener);
+    return () => {
+      set?.delete(listener);
+    };
+  }
+
+  emit(key: string, value: T) {
+    this.listeners.get(key)?.forEach((listener) => {
+      try {
+        listener(value);
+      } catch (error) {
+        console.error(`❌ Signaling listener for "${key}" threw:`, error);
+      }
+    });
+  }
+
+  clear() {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,23 @@
+import { LocalSignalingTransport } from "./local-transport";
+import { SupabaseSignalingTransport } from "./supabase-transport";
+import type { SignalingTransport } from "./types";
+
+export * from "./types";
+export * from "./protocol";
+export { deriveSigningKey } from "./message-auth";
+export { LocalSignalingTransport, createMemoryBus, createBroadcastChannelBus } from "./local-transport";
+export { SupabaseSignalingTransport } from "./supabase-transport";
+
+export type SignalingTransportKind = "supabase" | "local";
+
+// VITE_SIGNALING_TRANSPORT=local runs the call flow across tabs of one browser, no Supabase needed
+export const createSignalingTransport = (
+  roomId: string,
+  clientId: string,
+  kind: SignalingTransportKind = import.meta.env.VITE_SIGNALING_TRANSPORT === "local" ? "local" : "supabase",
+): SignalingTransport => {
+  if (kind === "local") {
+    return new LocalSignalingTransport(roomId, clientId);
+  }
+  return new SupabaseSignalingTransport(roomId, clientId);
+};
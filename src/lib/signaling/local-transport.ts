@@ -0,0 +1,189 @@
+import { Emitter } from "./emitter";
+import {
+  SignalingError,
+  type MessageHandler,
+  type PresenceChange,
+  type PresenceMeta,
+  type PresenceState,
+  type SignalingPayload,
+  type SignalingTransport,
+} from "./types";
+
+type LocalFrame =
+  | { type: "message"; from: string; event: string; payload: SignalingPayload }
+  | { type: "presence"; from: string; meta: PresenceMeta; probe: boolean }
+  | { type: "leave"; from: string };
+
+/** A broadcast medium that delivers frames to every other endpoint on the same name */
+export interface LocalBus {
+  post(frame: LocalFrame): void;
+  subscribe(listener: (frame: LocalFrame) => void): void;
+  close(): void;
+}
+
+const memoryBuses = new Map<string, Set<(frame: LocalFrame) => void>>();
+
+// Same-context bus, used when BroadcastChannel is unavailable (e.g. in tests)
+export const createMemoryBus = (name: string): LocalBus => {
+  let listener: ((frame: LocalFrame) => void) | null = null;
+  const peers = memoryBuses.get(name) ?? new Set();
+  memoryBuses.set(name, peers);
+
+  return {
+    post(frame) {
+      const copy: LocalFrame = JSON.parse(JSON.stringify(frame));
+      peers.forEach((peer) => {
+        if (peer !== listener) {
+          setTimeout(() => peer(copy), 0);
+        }
+      });
+    },
+    subscribe(next) {
+      listener = next;
+      peers.add(next);
+    },
+    close() {
+      if (listener) {
+        peers.delete(listener);
+      }
+      if (peers.size === 0) {
+        memoryBuses.delete(name);
+      }
+    },
+  };
+};
+
+// Cross-tab bus on the same origin
+export const createBroadcastChannelBus = (name: string): LocalBus => {
+  const channel = new BroadcastChannel(name);
+  return {
+    post(frame) {
+      channel.postMessage(frame);
+    },
+    subscribe(listener) {
+      channel.onmessage = (event: MessageEvent<LocalFrame>) => listener(event.data);
+    },
+    close() {
+      channel.close();
+    },
+  };
+};
+
+// Signaling between tabs of the same browser (or within one page) without a Supabase project.
+export class LocalSignalingTransport implements SignalingTransport {
+  readonly roomId: string;
+  readonly clientId: string;
+  private bus: LocalBus | null = null;
+  private members = new Map<string, PresenceMeta>();
+  private messages = new Emitter<SignalingPayload>();
+  private anyMessages = new Emitter<{ event: string; payload: SignalingPayload }>();
+  private presenceEvents = new Emitter<PresenceChange | null>();
+  private createBus: (name: string) => LocalBus;
+
+  constructor(roomId: string, clientId: string, createBus?: (name: string) => LocalBus) {
+    this.roomId = roomId;
+    this.clientId = clientId;
+    this.createBus =
+      createBus ?? (typeof BroadcastChannel !== "undefined" ? createBroadcastChannelBus : createMemoryBus);
+  }
+
+  readonly presence = {
+    state: (): PresenceState => {
+      const state: PresenceState = {};
+      this.members.forEach((meta, key) => {
+        state[key] = [meta];
+      });
+      return state;
+    },
+    onSync: (handler: () => void) => this.presenceEvents.on("sync", () => handler()),
+    onJoin: (handler: (change: PresenceChange) => void) =>
+      this.presenceEvents.on("join", (change) => handler(change!)),
+    onLeave: (handler: (change: PresenceChange) => void) =>
+      this.presenceEvents.on("leave", (change) => handler(change!)),
+    track: async (meta: PresenceMeta) => {
+      if (!this.bus) {
+        throw new SignalingError("closed", "Cannot track presence before joining");
+      }
+      this.upsertMember(this.clientId, meta);
+      this.bus.post({ type: "presence", from: this.clientId, meta, probe: true });
+    },
+  };
+
+  async join() {
+    if (this.bus) {
+      return;
+    }
+    const bus = this.createBus(`room:${this.roomId}`);
+    bus.subscribe((frame) => this.handleFrame(frame));
+    this.bus = bus;
+    window.addEventListener("pagehide", this.handlePageHide);
+    console.log('📡 Local signaling joined:', this.roomId);
+  }
+
+  async leave() {
+    const bus = this.bus;
+    this.bus = null;
+    window.removeEventListener("pagehide", this.handlePageHide);
+    if (bus) {
+      bus.post({ type: "leave", from: this.clientId });
+      bus.close();
+    }
+    this.members.clear();
+    this.messages.clear();
+    this.anyMessages.clear();
+    this.presenceEvents.clear();
+  }
+
+  async send(event: string, payload: SignalingPayload) {
+    if (!this.bus) {
+      throw new SignalingError("closed", `Cannot send "${event}" before joining`);
+    }
+    this.bus.post({ type: "message", from: this.clientId, event, payload });
+  }
+
+  onMessage<P = SignalingPayload>(event: string, handler: MessageHandler<P>) {
+    return this.messages.on(event, handler as MessageHandler);
+  }
+
+  onAnyMessage(handler: (event: string, payload: SignalingPayload) => void) {
+    return this.anyMessages.on("message", ({ event, payload }) => handler(event, payload));
+  }
+
+  private handlePageHide = () => {
+    void this.leave();
+  };
+
+  private handleFrame(frame: LocalFrame) {
+    if (frame.from === this.clientId) {
+      return;
+    }
+
+    if (frame.type === "message") {
+      this.anyMessages.emit("message", { event: frame.event, payload: frame.payload });
+      this.messages.emit(frame.event, frame.payload);
+    } else if (frame.type === "presence") {
+      this.upsertMember(frame.from, frame.meta);
+      // Answer a newcomer's probe so it learns about everyone already in the room
+      const self = this.members.get(this.clientId);
+      if (frame.probe && self && this.bus) {
+        this.bus.post({ type: "presence", from: this.clientId, meta: self, probe: false });
+      }
+    } else if (frame.type === "leave") {
+      const meta = this.members.get(frame.from);
+      if (meta) {
+        this.members.delete(frame.from);
+        this.presenceEvents.emit("leave", { key: frame.from, meta: [meta] });
+        this.presenceEvents.emit("sync", null);
+      }
+    }
+  }
+
+  private upsertMember(key: string, meta: PresenceMeta) {
+    const isNew = !this.members.has(key);
+    this.members.set(key, meta);
+    if (isNew) {
+      this.presenceEvents.emit("join", { key, meta: [meta] });
+    }
+    this.presenceEvents.emit("sync", null);
+  }
+}
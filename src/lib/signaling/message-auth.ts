@@ -0,0 +1,34 @@
+// HMAC-SHA256 over every signaling message, keyed from the room key in the link fragment.
+// The key is bound to the room id, so a key leaked for one room says nothing about another.
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+export const deriveSigningKey = async (roomId: string, roomKey: string) => {
+  const material = await crypto.subtle.importKey("raw", encoder.encode(roomKey), "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: encoder.encode(roomId), info: encoder.encode("signaling-hmac") },
+    material,
+    { name: "HMAC", hash: "SHA-256", length: 256 },
+    false,
+    ["sign", "verify"],
+  );
+};
+
+// The event name is signed too, so a valid offer cannot be replayed as another message type
+const signedBytes = (event: string, data: string) => encoder.encode(`${event}\n${data}`);
+
+export const signMessage = async (key: CryptoKey, event: string, data: string) =>
+  toBase64(await crypto.subtle.sign("HMAC", key, signedBytes(event, data)));
+
+export const verifyMessage = async (key: CryptoKey, event: string, data: string, signature: string) => {
+  try {
+    return await crypto.subtle.verify("HMAC", key, fromBase64(signature), signedBytes(event, data));
+  } catch {
+    // Not valid base64
+    return false;
+  }
+};
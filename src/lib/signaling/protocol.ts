@@ -0,0 +1,350 @@
+import { z } from "zod";
+import { REACTIONS } from "@/lib/reactions";
+import { Emitter } from "./emitter";
+import { signMessage, verifyMessage } from "./message-auth";
+import type {
+  PresenceChange,
+  PresenceMeta,
+  PresenceState,
+  SignalingPayload,
+  SignalingPresence,
+  SignalingTransport,
+} from "./types";
+
+// Wire format of the call's signaling messages. Every payload is a signed frame carrying the
+// protocol version, the JSON message, when it was sent, a one-off nonce and the HMAC over all
+// of it; the message is validated against its event schema on receipt. Anything unsigned,
+// badly signed, malformed, unknown, stale, seen before or from another protocol version is
+// logged and dropped instead of reaching the call flow. Presence metadata is signed the same way.
+
+export const PROTOCOL_VERSION = 3;
+
+// Older frames are dropped, whichever way they arrive; also the replay window of the durable log.
+// Clocks of the two sides are assumed to agree within it.
+export const MAX_FRAME_AGE_MS = 2 * 60 * 1000;
+
+const clientId = z.string().min(1).max(64);
+
+const addressed = {
+  from: clientId,
+  to: clientId,
+};
+
+const sessionDescription = <T extends RTCSdpType>(type: T) =>
+  z.object({
+    type: z.literal(type),
+    sdp: z.string().max(100_000),
+  });
+
+const iceCandidate = z.object({
+  candidate: z.string().max(1_000),
+  sdpMid: z.string().nullable().optional(),
+  sdpMLineIndex: z.number().int().nonnegative().nullable().optional(),
+  usernameFragment: z.string().nullable().optional(),
+});
+
+// Signature by the host key over the decision, see host.ts
+const hostProof = z.string().max(200);
+
+export const signalingSchemas = {
+  join_approved: z.object({
+    joinerId: clientId,
+    hostId: clientId,
+    proof: hostProof,
+  }),
+  join_rejected: z.object({
+    joinerId: clientId,
+    hostId: clientId,
+    reason: z.enum(["rejected", "full"]).optional(),
+    proof: hostProof,
+  }),
+  webrtc_offer: z.object({
+    ...addressed,
+    description: sessionDescription("offer"),
+  }),
+  webrtc_answer: z.object({
+    ...addressed,
+    description: sessionDescription("answer"),
+  }),
+  ice_candidate: z.object({
+    ...addressed,
+    // null marks the end of the sender's candidates
+    candidate: iceCandidate.nullable(),
+  }),
+  reaction: z.object({
+    from: clientId,
+    emoji: z.enum(REACTIONS),
+  }),
+};
+
+export type SignalingEventMap = {
+  [E in keyof typeof signalingSchemas]: z.infer<(typeof signalingSchemas)[E]>;
+};
+
+export type SignalingEvent = keyof SignalingEventMap;
+
+/** Messages negotiating a peer connection, addressed to exactly one participant */
+export type AddressedMessage = z.infer<z.ZodObject<typeof addressed>>;
+
+const isSignalingEvent = (event: string): event is SignalingEvent => event in signalingSchemas;
+
+// Only what a peer that subscribes late cannot do without: a replayed offer or answer is
+// useless without the candidates trickled after it. Reactions are broadcast only.
+const DURABLE_EVENTS: ReadonlySet<SignalingEvent> = new Set<SignalingEvent>([
+  "join_approved",
+  "join_rejected",
+  "webrtc_offer",
+  "webrtc_answer",
+  "ice_candidate",
+]);
+
+const signedFrame = z.object({
+  v: z.number(),
+  data: z.string().max(200_000),
+  /** Milliseconds since the epoch, on the sender's clock */
+  ts: z.number().int().nonnegative(),
+  nonce: z.string().min(1).max(64),
+  sig: z.string().max(100),
+});
+
+const signedBody = (ts: number, nonce: string, data: string) => `${ts}\n${nonce}\n${data}`;
+
+const signedMeta = z.object({
+  v: z.number(),
+  data: z.string().max(20_000),
+  sig: z.string().max(100),
+});
+
+const presenceMeta = z.record(z.unknown());
+
+// The member's key is signed too, so one member's metadata cannot be published as another's
+const presenceEvent = (key: string) => `presence:${key}`;
+
+/** Validates a verified message body; returns null (and logs why) if it must be dropped */
+export const parseSignalingMessage = <E extends SignalingEvent>(
+  event: E,
+  data: string,
+): SignalingEventMap[E] | null => {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    console.warn(`⚠️ Dropping "${event}" that is not valid JSON`);
+    return null;
+  }
+  const result = signalingSchemas[event].safeParse(json);
+  if (!result.success) {
+    console.warn(`⚠️ Dropping malformed "${event}":`, result.error.issues);
+    return null;
+  }
+  return result.data as SignalingEventMap[E];
+};
+
+// Presence of a transport reduced to the metadata that verifies. Verification is async, so the
+// transport's events are processed one at a time and in order; `state()` is the verified
+// snapshot as of the last sync.
+class SignedPresence implements SignalingPresence {
+  private transport: SignalingTransport;
+  private key: Promise<CryptoKey>;
+  private verified: PresenceState = {};
+  private opened = new Map<string, Promise<PresenceMeta | null>>();
+  private events = new Emitter<PresenceChange | null>();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(transport: SignalingTransport, key: Promise<CryptoKey>) {
+    this.transport = transport;
+    this.key = key;
+    transport.presence.onSync(() => this.enqueue(async () => {
+      await this.refresh();
+      this.events.emit("sync", null);
+    }));
+    transport.presence.onJoin((change) => this.enqueue(() => this.relay("join", change)));
+    transport.presence.onLeave((change) => this.enqueue(() => this.relay("leave", change)));
+  }
+
+  state() {
+    return this.verified;
+  }
+
+  onSync(handler: () => void) {
+    return this.events.on("sync", () => handler());
+  }
+
+  onJoin(handler: (change: PresenceChange) => void) {
+    return this.events.on("join", (change) => handler(change!));
+  }
+
+  onLeave(handler: (change: PresenceChange) => void) {
+    return this.events.on("leave", (change) => handler(change!));
+  }
+
+  async track(meta: PresenceMeta) {
+    const data = JSON.stringify(meta);
+    const sig = await signMessage(await this.key, presenceEvent(this.transport.clientId), data);
+    await this.transport.presence.track({ v: PROTOCOL_VERSION, data, sig });
+  }
+
+  private enqueue(task: () => Promise<void>) {
+    this.queue = this.queue.then(task).catch((error) => {
+      console.error("❌ Presence update failed:", error);
+    });
+  }
+
+  private async relay(event: "join" | "leave", { key, meta }: PresenceChange) {
+    const verified = await this.openAll(key, meta);
+    if (verified.length > 0) {
+      this.events.emit(event, { key, meta: verified });
+    }
+  }
+
+  private async refresh() {
+    const state = this.transport.presence.state();
+    const next: PresenceState = {};
+    await Promise.all(Object.entries(state).map(async ([key, metas]) => {
+      const verified = await this.openAll(key, metas);
+      if (verified.length > 0) {
+        next[key] = verified;
+      }
+    }));
+    // Only what is still in the room stays cached
+    const current = new Set(Object.entries(state).flatMap(([key, metas]) => metas.map((meta) => this.cacheId(key, meta))));
+    this.opened.forEach((_, id) => {
+      if (!current.has(id)) {
+        this.opened.delete(id);
+      }
+    });
+    this.verified = next;
+  }
+
+  private async openAll(key: string, metas: PresenceMeta[]) {
+    const opened = await Promise.all(metas.map((meta) => this.open(key, meta)));
+    return opened.filter((meta): meta is PresenceMeta => meta !== null);
+  }
+
+  private cacheId(key: string, meta: PresenceMeta) {
+    return `${key}\n${typeof meta.sig === "string" ? meta.sig : ""}`;
+  }
+
+  // Every sync reports every member again; each signature is only checked once
+  private open(key: string, meta: PresenceMeta) {
+    const id = this.cacheId(key, meta);
+    let opened = this.opened.get(id);
+    if (!opened) {
+      opened = this.verify(key, meta);
+      this.opened.set(id, opened);
+    }
+    return opened;
+  }
+
+  private async verify(key: string, meta: PresenceMeta): Promise<PresenceMeta | null> {
+    const frame = signedMeta.safeParse(meta);
+    if (!frame.success || frame.data.v !== PROTOCOL_VERSION) {
+      console.warn(`⚠️ Ignoring unsigned presence of ${key}`);
+      return null;
+    }
+    if (!(await verifyMessage(await this.key, presenceEvent(key), frame.data.data, frame.data.sig))) {
+      console.warn(`⚠️ Ignoring presence of ${key} with an invalid signature`);
+      return null;
+    }
+    let json: unknown;
+    try {
+      json = JSON.parse(frame.data.data);
+    } catch {
+      return null;
+    }
+    const parsed = presenceMeta.safeParse(json);
+    return parsed.success ? parsed.data : null;
+  }
+}
+
+// Typed, authenticated view of a transport that only speaks the protocol above.
+// Signing and verification are async, so both directions run through a queue to keep
+// messages in order (an ICE candidate must not overtake the offer it belongs to).
+export class SignalingChannel {
+  readonly transport: SignalingTransport;
+  /** Use instead of the transport's presence: only signed metadata, others' unsigned claims are dropped */
+  readonly presence: SignalingPresence;
+  private key: Promise<CryptoKey>;
+  private outbound: Promise<void> = Promise.resolve();
+  private inbound: Promise<void> = Promise.resolve();
+  /** Nonces of accepted frames younger than MAX_FRAME_AGE_MS, with their timestamps */
+  private seenNonces = new Map<string, number>();
+
+  constructor(transport: SignalingTransport, key: Promise<CryptoKey>) {
+    this.transport = transport;
+    this.key = key;
+    this.presence = new SignedPresence(transport, key);
+    transport.onAnyMessage((event) => {
+      if (!isSignalingEvent(event)) {
+        console.warn(`⚠️ Dropping unknown signaling event "${event}"`);
+      }
+    });
+  }
+
+  send<E extends SignalingEvent>(event: E, payload: SignalingEventMap[E]) {
+    const sent = this.outbound.then(async () => {
+      const data = JSON.stringify(payload);
+      const ts = Date.now();
+      const nonce = crypto.randomUUID();
+      const sig = await signMessage(await this.key, event, signedBody(ts, nonce, data));
+      await this.transport.send(
+        event,
+        { v: PROTOCOL_VERSION, data, ts, nonce, sig },
+        { durable: DURABLE_EVENTS.has(event) },
+      );
+    });
+    this.outbound = sent.catch((error) => {
+      console.error(`❌ Failed to send "${event}":`, error);
+    });
+    return sent;
+  }
+
+  on<E extends SignalingEvent>(event: E, handler: (payload: SignalingEventMap[E]) => void) {
+    return this.transport.onMessage(event, (payload) => {
+      this.inbound = this.inbound.then(async () => {
+        const message = await this.open(event, payload);
+        if (message) {
+          handler(message);
+        }
+      }).catch((error) => {
+        console.error(`❌ Signaling handler for "${event}" threw:`, error);
+      });
+    });
+  }
+
+  private async open<E extends SignalingEvent>(event: E, payload: SignalingPayload) {
+    const frame = signedFrame.safeParse(payload);
+    if (!frame.success) {
+      console.warn(`⚠️ Dropping unsigned "${event}"`);
+      return null;
+    }
+    if (frame.data.v !== PROTOCOL_VERSION) {
+      console.warn(`⚠️ Dropping "${event}" with protocol version ${frame.data.v}, expected ${PROTOCOL_VERSION}`);
+      return null;
+    }
+    if (!(await verifyMessage(await this.key, event, signedBody(frame.data.ts, frame.data.nonce, frame.data.data), frame.data.sig))) {
+      console.warn(`⚠️ Dropping "${event}" with an invalid signature`);
+      return null;
+    }
+    if (!this.isFresh(frame.data.ts, frame.data.nonce)) {
+      console.warn(`⚠️ Dropping stale or replayed "${event}"`);
+      return null;
+    }
+    return parseSignalingMessage(event, frame.data.data);
+  }
+
+  // Only called for verified frames, so nobody without the key can fill the nonce cache
+  private isFresh(ts: number, nonce: string) {
+    const now = Date.now();
+    this.seenNonces.forEach((seenAt, seen) => {
+      if (now - seenAt > MAX_FRAME_AGE_MS) {
+        this.seenNonces.delete(seen);
+      }
+    });
+    if (Math.abs(now - ts) > MAX_FRAME_AGE_MS || this.seenNonces.has(nonce)) {
+      return false;
+    }
+    this.seenNonces.set(nonce, ts);
+    return true;
+  }
+}
@@ -0,0 +1,59 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { SignalingPayload } from "./types";
+
+// Durable copy of the signaling messages sent as durable (join decisions, offers, answers
+// and their ICE candidates) in `public.signaling`, so peers that were not subscribed when a
+// broadcast went out can replay them. The table cannot be read directly; get_recent_signaling_messages returns the last
+// two minutes of exactly one room.
+
+export interface SignalingEnvelope {
+  id: string;
+  from: string;
+  payload: SignalingPayload;
+}
+
+export interface LoggedMessage {
+  event: string;
+  envelope: SignalingEnvelope;
+}
+
+const isEnvelope = (data: Json): data is Json & SignalingEnvelope =>
+  typeof data === "object" &&
+  data !== null &&
+  !Array.isArray(data) &&
+  typeof data.id === "string" &&
+  typeof data.from === "string" &&
+  typeof data.payload === "object";
+
+export const persistMessage = async (roomId: string, event: string, envelope: SignalingEnvelope) => {
+  const { error } = await supabase.from("signaling").insert({
+    id: envelope.id,
+    room_id: roomId,
+    type: event,
+    data: envelope as unknown as Json,
+  });
+  if (error) {
+    console.warn('⚠️ Failed to persist signaling message:', error.message);
+  }
+};
+
+export const fetchRecentMessages = async (roomId: string): Promise<LoggedMessage[]> => {
+  const { data, error } = await supabase.rpc("get_recent_signaling_messages", { p_room_id: roomId });
+
+  if (error) {
+    console.warn('⚠️ Failed to load signaling history:', error.message);
+    return [];
+  }
+
+  return data
+    .filter((row) => isEnvelope(row.data))
+    .map((row) => ({ event: row.type, envelope: row.data as unknown as SignalingEnvelope }));
+};
+
+export const cleanupOldMessages = async () => {
+  const { error } = await supabase.rpc("cleanup_old_signaling_messages");
+  if (error) {
+    console.warn('⚠️ Signaling cleanup failed:', error.message);
+  }
+};
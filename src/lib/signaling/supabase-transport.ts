@@ -0,0 +1,169 @@
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Emitter } from "./emitter";
+import {
+  cleanupOldMessages,
+  fetchRecentMessages,
+  persistMessage,
+  type SignalingEnvelope,
+} from "./signaling-log";
+import {
+  SignalingError,
+  type MessageHandler,
+  type PresenceChange,
+  type PresenceMeta,
+  type PresenceState,
+  type SendOptions,
+  type SignalingPayload,
+  type SignalingTransport,
+} from "./types";
+
+export interface SupabaseTransportOptions {
+  /** Write messages sent as durable to the `signaling` table and replay them on every (re)subscribe */
+  durable?: boolean;
+}
+
+// Signaling over a Supabase Realtime channel: broadcast for messages, presence for membership.
+// Broadcasts are fire-and-forget, so with `durable` on the messages sent as durable are also
+// persisted and replayed after subscribing; ids make the two delivery paths idempotent.
+export class SupabaseSignalingTransport implements SignalingTransport {
+  readonly roomId: string;
+  readonly clientId: string;
+  private channel: RealtimeChannel | null = null;
+  private messages = new Emitter<SignalingPayload>();
+  private anyMessages = new Emitter<{ event: string; payload: SignalingPayload }>();
+  private presenceEvents = new Emitter<PresenceChange | null>();
+  private seenIds = new Set<string>();
+  private durable: boolean;
+
+  constructor(roomId: string, clientId: string, { durable = true }: SupabaseTransportOptions = {}) {
+    this.roomId = roomId;
+    this.clientId = clientId;
+    this.durable = durable;
+  }
+
+  readonly presence = {
+    state: (): PresenceState => (this.channel ? this.channel.presenceState() : {}),
+    onSync: (handler: () => void) => this.presenceEvents.on("sync", () => handler()),
+    onJoin: (handler: (change: PresenceChange) => void) =>
+      this.presenceEvents.on("join", (change) => handler(change!)),
+    onLeave: (handler: (change: PresenceChange) => void) =>
+      this.presenceEvents.on("leave", (change) => handler(change!)),
+    track: async (meta: PresenceMeta) => {
+      if (!this.channel) {
+        throw new SignalingError("closed", "Cannot track presence before joining");
+      }
+      await this.channel.track(meta);
+    },
+  };
+
+  join(): Promise<void> {
+    if (this.channel) {
+      return Promise.resolve();
+    }
+
+    const channel = supabase
+      .channel(`room:${this.roomId}`, {
+        config: {
+          presence: {
+            key: this.clientId,
+          },
+          broadcast: {
+            ack: true,
+          },
+        },
+      })
+      .on("presence", { event: "sync" }, () => {
+        this.presenceEvents.emit("sync", null);
+      })
+      .on("presence", { event: "join" }, ({ key, currentPresences, newPresences }) => {
+        // A re-track of an existing key is a metadata update, reported through sync only
+        if (currentPresences.length === 0) {
+          this.presenceEvents.emit("join", { key, meta: newPresences });
+        }
+      })
+      .on("presence", { event: "leave" }, ({ key, currentPresences, leftPresences }) => {
+        if (currentPresences.length === 0) {
+          this.presenceEvents.emit("leave", { key, meta: leftPresences });
+        }
+      })
+      .on("broadcast", { event: "*" }, ({ event, payload }) => {
+        this.deliver(event, payload as SignalingEnvelope);
+      });
+    this.channel = channel;
+
+    return new Promise((resolve, reject) => {
+      channel.subscribe((status) => {
+        console.log('📡 Subscription status:', status);
+        if (status === 'SUBSCRIBED') {
+          resolve();
+          // Also runs after Realtime silently rejoins, recovering what was sent meanwhile
+          void this.replay();
+        } else if (status === 'CHANNEL_ERROR') {
+          reject(new SignalingError("channel_error"));
+        } else if (status === 'TIMED_OUT') {
+          reject(new SignalingError("timed_out"));
+        }
+      });
+    });
+  }
+
+  async leave() {
+    const channel = this.channel;
+    this.channel = null;
+    this.messages.clear();
+    this.anyMessages.clear();
+    this.presenceEvents.clear();
+    this.seenIds.clear();
+    if (channel) {
+      await channel.unsubscribe();
+      await supabase.removeChannel(channel);
+    }
+  }
+
+  async send(event: string, payload: SignalingPayload, { durable = false }: SendOptions = {}) {
+    if (!this.channel) {
+      throw new SignalingError("closed", `Cannot send "${event}" before joining`);
+    }
+    const envelope: SignalingEnvelope = { id: crypto.randomUUID(), from: this.clientId, payload };
+    this.seenIds.add(envelope.id);
+    // The copy is only for latecomers, the broadcast does not wait for it
+    if (this.durable && durable) {
+      void persistMessage(this.roomId, event, envelope);
+    }
+    await this.channel.send({ type: 'broadcast', event, payload: envelope });
+  }
+
+  onMessage<P = SignalingPayload>(event: string, handler: MessageHandler<P>) {
+    return this.messages.on(event, handler as MessageHandler);
+  }
+
+  onAnyMessage(handler: (event: string, payload: SignalingPayload) => void) {
+    return this.anyMessages.on("message", ({ event, payload }) => handler(event, payload));
+  }
+
+  private deliver(event: string, envelope: SignalingEnvelope) {
+    if (!envelope?.id || this.seenIds.has(envelope.id) || envelope.from === this.clientId) {
+      return;
+    }
+    this.seenIds.add(envelope.id);
+    this.anyMessages.emit("message", { event, payload: envelope.payload });
+    this.messages.emit(event, envelope.payload);
+  }
+
+  private async replay() {
+    if (!this.durable) {
+      return;
+    }
+    const history = await fetchRecentMessages(this.roomId);
+    if (!this.channel) {
+      return;
+    }
+    const missed = history.filter(({ envelope }) => !this.seenIds.has(envelope.id));
+    if (missed.length > 0) {
+      console.log(`📼 Replaying ${missed.length} persisted signaling messages`);
+    }
+    missed.forEach(({ event, envelope }) => this.deliver(event, envelope));
+    void cleanupOldMessages();
+  }
+}
@@ -0,0 +1,57 @@
+// Transport-agnostic signaling contracts used by the call flow.
+
+export type PresenceMeta = Record<string, unknown>;
+
+export type PresenceState = Record<string, PresenceMeta[]>;
+
+export interface PresenceChange {
+  key: string;
+  meta: PresenceMeta[];
+}
+
+export type SignalingPayload = Record<string, unknown>;
+
+export interface SendOptions {
+  /** Also keep the message for peers that subscribe later, where the transport can */
+  durable?: boolean;
+}
+
+export type MessageHandler<P = SignalingPayload> = (payload: P) => void;
+
+export interface SignalingPresence {
+  /** Current snapshot of everyone tracked in the room, keyed by client id */
+  state(): PresenceState;
+  /** Fires after any change, including metadata updates of an existing member */
+  onSync(handler: () => void): () => void;
+  /** Fires only when a key enters or leaves the room, not when it re-tracks */
+  onJoin(handler: (change: PresenceChange) => void): () => void;
+  onLeave(handler: (change: PresenceChange) => void): () => void;
+  /** Publish (or replace) our own presence metadata */
+  track(meta: PresenceMeta): Promise<void>;
+}
+
+export interface SignalingTransport {
+  readonly roomId: string;
+  readonly clientId: string;
+  readonly presence: SignalingPresence;
+  /** Subscribe to the room; resolves once messages can be sent and received */
+  join(): Promise<void>;
+  leave(): Promise<void>;
+  /** Broadcast a message to every other peer in the room (never echoed back) */
+  send(event: string, payload: SignalingPayload, options?: SendOptions): Promise<void>;
+  onMessage<P = SignalingPayload>(event: string, handler: MessageHandler<P>): () => void;
+  /** Fires for every incoming message, whatever its event name */
+  onAnyMessage(handler: (event: string, payload: SignalingPayload) => void): () => void;
+}
+
+export type SignalingErrorReason = "channel_error" | "timed_out" | "closed";
+
+export class SignalingError extends Error {
+  readonly reason: SignalingErrorReason;
+
+  constructor(reason: SignalingErrorReason, message?: string) {
+    super(message ?? `Signaling transport failed: ${reason}`);
+    this.name = "SignalingError";
+    this.reason = reason;
+  }
+}
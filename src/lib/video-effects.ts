@@ -0,0 +1,240 @@
+import type { Results, SelfieSegmentation } from "@mediapipe/selfie_segmentation";
+import binaryGraphUrl from "@mediapipe/selfie_segmentation/selfie_segmentation.binarypb?url";
+import landscapeModelUrl from "@mediapipe/selfie_segmentation/selfie_segmentation_landscape.tflite?url";
+import simdLoaderUrl from "@mediapipe/selfie_segmentation/selfie_segmentation_solution_simd_wasm_bin.js?url";
+import simdBinaryUrl from "@mediapipe/selfie_segmentation/selfie_segmentation_solution_simd_wasm_bin.wasm?url";
+import simdDataUrl from "@mediapipe/selfie_segmentation/selfie_segmentation_solution_simd_wasm_bin.data?url";
+import loaderUrl from "@mediapipe/selfie_segmentation/selfie_segmentation_solution_wasm_bin.js?url";
+import binaryUrl from "@mediapipe/selfie_segmentation/selfie_segmentation_solution_wasm_bin.wasm?url";
+
+// Background effects for the outgoing camera. A BackgroundProcessor sits between the camera
+// track and the senders: every camera frame goes through the MediaPipe selfie segmentation
+// model (WASM, bundled with the app, no CDN; the graph itself runs on WebGL2), and the person
+// is composited over the chosen background on a canvas whose captured track is what gets sent.
+// Turning an effect on or off swaps tracks with replaceTrack, so the peer connections never
+// renegotiate.
+
+export type BackgroundEffect =
+  | { type: "none" }
+  | { type: "blur" }
+  | { type: "color"; color: string }
+  | { type: "image"; url: string };
+
+export const NO_BACKGROUND_EFFECT: BackgroundEffect = { type: "none" };
+
+const FRAME_RATE = 30;
+const BLUR_RADIUS = 14;
+// Softens the mask edge so hair and shoulders do not look cut out
+const MASK_FEATHER = 2;
+
+// Every file the solution may ask for, served from our own build
+const SOLUTION_FILES: Record<string, string> = {
+  "selfie_segmentation.binarypb": binaryGraphUrl,
+  "selfie_segmentation_landscape.tflite": landscapeModelUrl,
+  "selfie_segmentation_solution_simd_wasm_bin.js": simdLoaderUrl,
+  "selfie_segmentation_solution_simd_wasm_bin.wasm": simdBinaryUrl,
+  "selfie_segmentation_solution_simd_wasm_bin.data": simdDataUrl,
+  "selfie_segmentation_solution_wasm_bin.js": loaderUrl,
+  "selfie_segmentation_solution_wasm_bin.wasm": binaryUrl,
+};
+
+// The solution has no CPU fallback: without WebGL2 it fails to initialize
+const hasWebGL2 = () => {
+  const context = document.createElement("canvas").getContext("webgl2");
+  context?.getExtension("WEBGL_lose_context")?.loseContext();
+  return context !== null;
+};
+
+export const isBackgroundEffectSupported = () =>
+  typeof WebAssembly === "object" && "captureStream" in HTMLCanvasElement.prototype && hasWebGL2();
+
+const createSegmentation = async () => {
+  const solution = await import("@mediapipe/selfie_segmentation");
+  // The package is a closure-compiled script that registers itself on the global object;
+  // bundlers do not always see it as an export
+  const Segmentation: typeof SelfieSegmentation =
+    solution.SelfieSegmentation ?? (window as unknown as { SelfieSegmentation: typeof SelfieSegmentation }).SelfieSegmentation;
+  const segmentation = new Segmentation({ locateFile: (file) => SOLUTION_FILES[file] ?? file });
+  // The landscape model is the lighter one, meant for video calls
+  segmentation.setOptions({ modelSelection: 1, selfieMode: false });
+  await segmentation.initialize();
+  return segmentation;
+};
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load background image ${url}`));
+    image.src = url;
+  });
+
+// Chrome reads frames straight off the track, which keeps running in background tabs;
+// elsewhere a playing video element is sampled on a timer
+const hasTrackProcessor = () => "MediaStreamTrackProcessor" in window;
+
+interface TrackProcessor {
+  readable: ReadableStream<VideoFrame>;
+}
+
+type TrackProcessorConstructor = new (init: { track: MediaStreamTrack }) => TrackProcessor;
+
+export class BackgroundProcessor {
+  /** The processed track to send instead of the camera */
+  readonly track: MediaStreamTrack;
+  /** Resolves once the model is loaded; until then the track has no frames */
+  readonly ready: Promise<void>;
+  private canvas = document.createElement("canvas");
+  private context: CanvasRenderingContext2D;
+  // Camera frames are copied here first when they come from a track processor
+  private frameCanvas = document.createElement("canvas");
+  private frameContext: CanvasRenderingContext2D;
+  private video = document.createElement("video");
+  private source: MediaStreamTrack;
+  private effect: BackgroundEffect;
+  private background: HTMLImageElement | null = null;
+  private segmentation: Promise<SelfieSegmentation>;
+  // Bumped whenever the source changes or the processor closes, ending the previous frame loop
+  private generation = 0;
+
+  constructor(source: MediaStreamTrack, effect: BackgroundEffect) {
+    this.source = source;
+    this.effect = effect;
+    const { width = 1280, height = 720 } = source.getSettings();
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.context = this.canvas.getContext("2d")!;
+    this.frameContext = this.frameCanvas.getContext("2d")!;
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.track = this.canvas.captureStream(FRAME_RATE).getVideoTracks()[0];
+    this.track.contentHint = "motion";
+
+    this.segmentation = createSegmentation();
+    this.ready = this.segmentation.then((segmentation) => segmentation.onResults(this.draw));
+    this.setEffect(effect);
+    this.run();
+  }
+
+  setEffect(effect: BackgroundEffect) {
+    this.effect = effect;
+    this.background = null;
+    if (effect.type === "image") {
+      loadImage(effect.url)
+        .then((image) => {
+          if (this.effect === effect) {
+            this.background = image;
+          }
+        })
+        .catch((error) => console.warn("⚠️", error));
+    }
+  }
+
+  /** Continue with another camera, e.g. after a device switch */
+  setSource(source: MediaStreamTrack) {
+    this.source = source;
+    this.run();
+  }
+
+  close() {
+    this.generation += 1;
+    this.video.srcObject = null;
+    this.track.stop();
+    this.segmentation.then((segmentation) => segmentation.close()).catch(() => {});
+  }
+
+  private async run() {
+    const generation = ++this.generation;
+    const active = () => generation === this.generation;
+    const segmentation = await this.segmentation.catch(() => null);
+    if (!segmentation || !active()) {
+      return;
+    }
+    console.log("🪄 Background effect running on", this.source.label);
+
+    if (hasTrackProcessor()) {
+      const Processor = (window as unknown as { MediaStreamTrackProcessor: TrackProcessorConstructor }).MediaStreamTrackProcessor;
+      const reader = new Processor({ track: this.source }).readable.getReader();
+      try {
+        while (active()) {
+          const { value: frame, done } = await reader.read();
+          if (done) {
+            break;
+          }
+          if (this.frameCanvas.width !== frame.displayWidth || this.frameCanvas.height !== frame.displayHeight) {
+            this.frameCanvas.width = frame.displayWidth;
+            this.frameCanvas.height = frame.displayHeight;
+          }
+          this.frameContext.drawImage(frame, 0, 0);
+          frame.close();
+          await segmentation.send({ image: this.frameCanvas });
+        }
+      } finally {
+        reader.cancel().catch(() => {});
+      }
+      return;
+    }
+
+    this.video.srcObject = new MediaStream([this.source]);
+    await this.video.play().catch((error) => console.warn("⚠️ Background effect input did not start:", error));
+    while (active()) {
+      const started = performance.now();
+      if (this.video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        await segmentation.send({ image: this.video });
+      }
+      const elapsed = performance.now() - started;
+      await new Promise((resolve) => setTimeout(resolve, Math.max(1000 / FRAME_RATE - elapsed, 0)));
+    }
+  }
+
+  private draw = ({ image, segmentationMask }: Results) => {
+    const { canvas, context } = this;
+    if (canvas.width !== image.width || canvas.height !== image.height) {
+      canvas.width = image.width;
+      canvas.height = image.height;
+    }
+    const { width, height } = canvas;
+
+    context.save();
+    context.clearRect(0, 0, width, height);
+    // Keep the person: the mask first, then the frame only where the mask is
+    context.filter = `blur(${MASK_FEATHER}px)`;
+    context.drawImage(segmentationMask, 0, 0, width, height);
+    context.filter = "none";
+    context.globalCompositeOperation = "source-in";
+    context.drawImage(image, 0, 0, width, height);
+    // Then everything else behind it
+    context.globalCompositeOperation = "destination-over";
+    this.drawBackground(image, width, height);
+    context.restore();
+  };
+
+  private drawBackground(frame: CanvasImageSource, width: number, height: number) {
+    const { context, effect, background } = this;
+    switch (effect.type) {
+      case "blur":
+        context.filter = `blur(${BLUR_RADIUS}px)`;
+        context.drawImage(frame, 0, 0, width, height);
+        context.filter = "none";
+        break;
+      case "color":
+        context.fillStyle = effect.color;
+        context.fillRect(0, 0, width, height);
+        break;
+      case "image":
+        if (background) {
+          // Cover the frame without distorting the picture
+          const scale = Math.max(width / background.naturalWidth, height / background.naturalHeight);
+          const drawnWidth = background.naturalWidth * scale;
+          const drawnHeight = background.naturalHeight * scale;
+          context.drawImage(background, (width - drawnWidth) / 2, (height - drawnHeight) / 2, drawnWidth, drawnHeight);
+        } else {
+          context.fillStyle = "#1f2937";
+          context.fillRect(0, 0, width, height);
+        }
+        break;
+      default:
+        context.drawImage(frame, 0, 0, width, height);
+    }
+  }
+}
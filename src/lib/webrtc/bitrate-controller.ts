@@ -0,0 +1,214 @@
+// Adapts what we send to one peer to the network between us. Every few seconds the controller
+// reads what the receiver reports back (remote-inbound-rtp: loss and round trip) and the
+// bandwidth estimate of the selected candidate pair, and moves one step along a quality
+// ladder by changing the video sender's encodings with setParameters. Nothing is renegotiated.
+//
+// Steps down happen at once; steps up only after a stretch of clean readings, so a flaky link
+// does not oscillate. The last step turns video off altogether and keeps the audio going;
+// it comes back through the same stretch of clean readings, measured on audio.
+
+export interface QualityLevel {
+  /** bit/s */
+  maxBitrate: number;
+  scaleResolutionDownBy: number;
+  maxFramerate: number;
+}
+
+// From the 1280×720@30 capture down to a thumbnail
+const LADDER: QualityLevel[] = [
+  { maxBitrate: 1_500_000, scaleResolutionDownBy: 1, maxFramerate: 30 },
+  { maxBitrate: 800_000, scaleResolutionDownBy: 1.5, maxFramerate: 30 },
+  { maxBitrate: 400_000, scaleResolutionDownBy: 2, maxFramerate: 20 },
+  { maxBitrate: 150_000, scaleResolutionDownBy: 4, maxFramerate: 15 },
+];
+/** Past the end of the ladder: video paused */
+const AUDIO_ONLY = LADDER.length;
+
+const CHECK_INTERVAL_MS = 2000;
+// Clean readings needed before stepping up: 10 seconds
+const UPGRADE_AFTER_CHECKS = 5;
+// Readings right after a change still describe the previous level
+const SETTLE_CHECKS = 1;
+// The bandwidth estimate starts low and ramps up over the first seconds of a connection
+const WARMUP_CHECKS = 5;
+
+const BAD_LOSS = 0.08;
+// Straight to audio only, video would only make it worse
+const SEVERE_LOSS = 0.25;
+const GOOD_LOSS = 0.02;
+const BAD_RTT_SECONDS = 0.6;
+const GOOD_RTT_SECONDS = 0.3;
+
+interface NetworkReading {
+  /** 0..1, of the kind we currently rely on (video, or audio while video is paused) */
+  loss: number | null;
+  roundTripTime: number | null;
+  /** bit/s */
+  availableBitrate: number | null;
+}
+
+// Only the fields read here; stats dictionaries are loosely typed in lib.dom
+interface StatsEntry {
+  id: string;
+  type: string;
+  kind?: string;
+  fractionLost?: number;
+  roundTripTime?: number;
+  availableOutgoingBitrate?: number;
+  selectedCandidatePairId?: string;
+  selected?: boolean;
+  nominated?: boolean;
+  state?: string;
+}
+
+const readNetwork = async (pc: RTCPeerConnection, kind: "audio" | "video"): Promise<NetworkReading> => {
+  const report = await pc.getStats();
+  const entries: StatsEntry[] = [];
+  report.forEach((entry: StatsEntry) => entries.push(entry));
+
+  const remoteInbound = entries.filter((entry) => entry.type === "remote-inbound-rtp" && entry.kind === kind);
+  const losses = remoteInbound.map((entry) => entry.fractionLost).filter((loss): loss is number => typeof loss === "number");
+  const rtts = remoteInbound.map((entry) => entry.roundTripTime).filter((rtt): rtt is number => typeof rtt === "number");
+
+  const transport = entries.find((entry) => entry.type === "transport" && entry.selectedCandidatePairId);
+  const pair = transport
+    ? entries.find((entry) => entry.id === transport.selectedCandidatePairId)
+    : entries.find((entry) => entry.type === "candidate-pair" && (entry.selected || (entry.nominated && entry.state === "succeeded")));
+
+  return {
+    loss: losses.length > 0 ? Math.max(...losses) : null,
+    roundTripTime: rtts.length > 0 ? Math.max(...rtts) : null,
+    availableBitrate: pair?.availableOutgoingBitrate ?? null,
+  };
+};
+
+export class BitrateController {
+  private pc: RTCPeerConnection;
+  private onAudioOnlyChange: (audioOnly: boolean) => void;
+  private level = 0;
+  private cleanChecks = 0;
+  private settleChecks = WARMUP_CHECKS;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking = false;
+
+  constructor(pc: RTCPeerConnection, onAudioOnlyChange: (audioOnly: boolean) => void) {
+    this.pc = pc;
+    this.onAudioOnlyChange = onAudioOnlyChange;
+  }
+
+  get audioOnly() {
+    return this.level === AUDIO_ONLY;
+  }
+
+  start() {
+    if (!this.timer) {
+      this.timer = setInterval(() => this.check(), CHECK_INTERVAL_MS);
+    }
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async check() {
+    if (this.checking || this.pc.connectionState !== "connected") {
+      return;
+    }
+    this.checking = true;
+    try {
+      const reading = await readNetwork(this.pc, this.audioOnly ? "audio" : "video");
+      if (this.settleChecks > 0) {
+        this.settleChecks -= 1;
+        return;
+      }
+      const next = this.nextLevel(reading);
+      if (next !== this.level) {
+        await this.apply(next);
+      }
+    } catch (error) {
+      console.warn("⚠️ Bitrate adaptation check failed:", error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private nextLevel({ loss, roundTripTime, availableBitrate }: NetworkReading) {
+    const current = LADDER[this.level];
+    const lower = LADDER[this.level + 1];
+    if (loss !== null && loss >= SEVERE_LOSS) {
+      return AUDIO_ONLY;
+    }
+    const bad =
+      (loss !== null && loss >= BAD_LOSS) ||
+      (roundTripTime !== null && roundTripTime >= BAD_RTT_SECONDS) ||
+      // Not even enough for the level below: fewer pixels look better than a blocky picture
+      (lower !== undefined && availableBitrate !== null && availableBitrate < lower.maxBitrate);
+    if (bad) {
+      this.cleanChecks = 0;
+      return Math.min(this.level + 1, AUDIO_ONLY);
+    }
+
+    // The estimate only grows to about what we send, so filling the current level is the
+    // signal that there may be room for more; while paused, loss and round trip decide alone
+    const up = LADDER[this.level - 1];
+    const clean =
+      (loss ?? 0) < GOOD_LOSS &&
+      (roundTripTime ?? 0) < GOOD_RTT_SECONDS &&
+      (current === undefined || availableBitrate === null || availableBitrate >= current.maxBitrate);
+    this.cleanChecks = clean ? this.cleanChecks + 1 : 0;
+    if (up !== undefined && this.cleanChecks >= UPGRADE_AFTER_CHECKS) {
+      this.cleanChecks = 0;
+      return this.level - 1;
+    }
+    return this.level;
+  }
+
+  /**
+   * Sets the current level's encodings again, e.g. after replaceTrack put a track with another
+   * contentHint on the video sender
+   */
+  refresh() {
+    return this.setEncodings(LADDER[this.level]);
+  }
+
+  private async apply(level: number) {
+    const wasAudioOnly = this.audioOnly;
+    this.level = level;
+    this.settleChecks = SETTLE_CHECKS;
+    const quality = LADDER[level];
+    await this.setEncodings(quality);
+
+    console.log(quality
+      ? `📶 Video to peer: ${quality.maxBitrate / 1000} kbit/s, 1/${quality.scaleResolutionDownBy} resolution, ${quality.maxFramerate} fps`
+      : "📶 Video to peer paused, audio only");
+    if (this.audioOnly !== wasAudioOnly) {
+      this.onAudioOnlyChange(this.audioOnly);
+    }
+  }
+
+  /** `quality` is undefined for audio only */
+  private async setEncodings(quality: QualityLevel | undefined) {
+    const senders = this.pc.getSenders().filter((sender) => sender.track?.kind === "video");
+    await Promise.all(senders.map(async (sender) => {
+      const parameters = sender.getParameters();
+      // Empty until the sender is negotiated (Firefox)
+      if (!parameters.encodings?.length) {
+        return;
+      }
+      // Shared screens keep their resolution so text stays legible; they lose frames instead
+      const sharp = sender.track?.contentHint === "detail";
+      parameters.encodings.forEach((encoding) => {
+        encoding.active = quality !== undefined;
+        if (quality) {
+          encoding.maxBitrate = quality.maxBitrate;
+          encoding.scaleResolutionDownBy = sharp ? 1 : quality.scaleResolutionDownBy;
+          encoding.maxFramerate = quality.maxFramerate;
+        }
+      });
+      await sender.setParameters(parameters);
+    }));
+  }
+}
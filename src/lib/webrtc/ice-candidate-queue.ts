@@ -0,0 +1,38 @@
+// Remote ICE candidates that arrived before the remote description they belong to.
+// `null` marks end-of-candidates and is replayed in order like any other entry.
+export class IceCandidateQueue {
+  private pending: (RTCIceCandidateInit | null)[] = [];
+
+  get size() {
+    return this.pending.length;
+  }
+
+  push(candidate: RTCIceCandidateInit | null) {
+    this.pending.push(candidate);
+  }
+
+  clear() {
+    this.pending = [];
+  }
+
+  /** Apply everything queued so far; failures are logged per candidate and do not stop the flush */
+  async flush(pc: RTCPeerConnection) {
+    const candidates = this.pending;
+    this.pending = [];
+    if (candidates.length > 0) {
+      console.log(`📦 Flushing ${candidates.length} queued ICE candidates`);
+    }
+
+    for (const candidate of candidates) {
+      try {
+        await addRemoteCandidate(pc, candidate);
+      } catch (error) {
+        console.warn('⚠️ Queued ICE candidate rejected:', error);
+      }
+    }
+  }
+}
+
+export const addRemoteCandidate = (pc: RTCPeerConnection, candidate: RTCIceCandidateInit | null) =>
+  // No argument signals end-of-candidates for the current ICE generation
+  candidate ? pc.addIceCandidate(candidate) : pc.addIceCandidate();
@@ -0,0 +1,57 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// TURN credentials are issued by the `ice-servers` edge function and expire after its TTL,
+// so nothing secret ships in the bundle. They are cached until shortly before expiry and
+// re-fetched for ICE restarts, which may happen long after the call started.
+
+interface IceServersResponse {
+  iceServers: RTCIceServer[];
+  expiresAt: number;
+}
+
+// Refresh a bit early so a connection never starts with credentials about to expire
+const EXPIRY_MARGIN_MS = 60_000;
+const FALLBACK_TTL_MS = 60_000;
+
+// Local development without the edge function: public STUN plus an optional local coturn
+const fallbackIceServers = (): RTCIceServer[] => {
+  const servers: RTCIceServer[] = [
+    { urls: ["stun:stun.l.google.com:19302", "stun:stun1.l.google.com:19302"] },
+  ];
+  const turnUrl = import.meta.env.VITE_TURN_URL;
+  if (turnUrl) {
+    servers.push({
+      urls: turnUrl,
+      username: import.meta.env.VITE_TURN_USERNAME,
+      credential: import.meta.env.VITE_TURN_CREDENTIAL,
+    });
+  }
+  return servers;
+};
+
+let cached: { iceServers: RTCIceServer[]; expiresAt: number } | null = null;
+let inflight: Promise<RTCIceServer[]> | null = null;
+
+const fetchIceServers = async () => {
+  const { data, error } = await supabase.functions.invoke<IceServersResponse>("ice-servers");
+  if (error || !data?.iceServers?.length) {
+    console.warn('⚠️ Failed to get TURN credentials, using fallback ICE servers:', error?.message);
+    cached = { iceServers: fallbackIceServers(), expiresAt: Date.now() + FALLBACK_TTL_MS };
+  } else {
+    console.log('🧊 TURN credentials issued, valid until', new Date(data.expiresAt * 1000).toLocaleTimeString());
+    cached = { iceServers: data.iceServers, expiresAt: data.expiresAt * 1000 };
+  }
+  return cached.iceServers;
+};
+
+/** ICE servers with valid credentials; `refresh` bypasses the cache (e.g. before an ICE restart) */
+export const getIceServers = ({ refresh = false } = {}) => {
+  if (!refresh && cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return Promise.resolve(cached.iceServers);
+  }
+  // Peers restarting together share one request
+  inflight ??= fetchIceServers().finally(() => {
+    inflight = null;
+  });
+  return inflight;
+};
@@ -0,0 +1,45 @@
+// Opus format parameters describe what the side writing the SDP wants to *receive*. To make our
+// own encoder send stereo at a high bitrate, they have to be present in the remote description,
+// so it is rewritten before being applied.
+
+/** "voice" leaves the negotiated defaults alone; "music" asks for stereo, 128 kbit/s and no DTX */
+export type AudioProfile = "voice" | "music";
+
+const MUSIC_PARAMETERS: Record<string, string> = {
+  stereo: "1",
+  "sprop-stereo": "1",
+  maxaveragebitrate: "128000",
+  // Discontinuous transmission would cut quiet passages as if they were silence
+  usedtx: "0",
+};
+
+const opusPayloadTypes = (sdp: string) =>
+  [...sdp.matchAll(/^a=rtpmap:(\d+) opus\/48000/gim)].map((match) => match[1]);
+
+const withParameters = (line: string, parameters: Record<string, string>) => {
+  const [head, current = ""] = line.split(/ (.*)/s);
+  const merged = new Map(
+    current
+      .split(";")
+      .filter(Boolean)
+      .map((parameter) => parameter.split("=") as [string, string]),
+  );
+  Object.entries(parameters).forEach(([key, value]) => merged.set(key, value));
+  return `${head} ${[...merged].map(([key, value]) => `${key}=${value}`).join(";")}`;
+};
+
+/** The description with the profile's Opus parameters applied */
+export const applyAudioProfile = (description: RTCSessionDescriptionInit, profile: AudioProfile) => {
+  if (profile === "voice" || !description.sdp) {
+    return description;
+  }
+  const payloadTypes = opusPayloadTypes(description.sdp);
+  const sdp = description.sdp
+    .split("\r\n")
+    .map((line) => {
+      const payloadType = /^a=fmtp:(\d+) /.exec(line)?.[1];
+      return payloadType && payloadTypes.includes(payloadType) ? withParameters(line, MUSIC_PARAMETERS) : line;
+    })
+    .join("\r\n");
+  return { ...description, sdp };
+};
@@ -0,0 +1,256 @@
+// One RTCPeerConnection to one remote peer, negotiated with the "perfect negotiation" pattern:
+// https://w3c.github.io/webrtc-pc/#perfect-negotiation-example
+//
+// Both sides may create offers at any time (onnegotiationneeded). When offers collide, the
+// impolite peer ignores the incoming one and the polite peer rolls back its own and answers.
+//
+// ICE is fully trickled: descriptions go out as soon as they are set, candidates follow one by
+// one, and remote candidates that beat their description are queued until it is applied.
+
+import type { MediaEncryption } from "@/lib/e2ee";
+import { IceCandidateQueue, addRemoteCandidate } from "./ice-candidate-queue";
+import { applyAudioProfile, type AudioProfile } from "./opus-profile";
+
+export type NegotiationMessage =
+  | { description: RTCSessionDescriptionInit }
+  | { candidate: RTCIceCandidateInit | null };
+
+export interface PeerSessionOptions {
+  localId: string;
+  remoteId: string;
+  configuration: RTCConfiguration;
+  send: (message: NegotiationMessage) => void;
+  /** End-to-end encrypts every sent and received track when set */
+  encryption?: MediaEncryption;
+  /** How our audio is encoded, see setAudioProfile */
+  audioProfile?: AudioProfile;
+}
+
+// Data channels are negotiated out of band: both sides open them with the same fixed id,
+// so neither has to wait for the other's "datachannel" event
+const CHAT_CHANNEL_ID = 0;
+const FILES_CHANNEL_ID = 1;
+
+// Deterministic role assignment: both sides compute the same answer from their ids
+export const isPolitePeer = (localId: string, remoteId: string) => localId > remoteId;
+
+export class PeerSession {
+  readonly localId: string;
+  readonly remoteId: string;
+  readonly polite: boolean;
+  readonly pc: RTCPeerConnection;
+  /** Ordered, reliable channel for chat messages */
+  readonly chat: RTCDataChannel;
+  /** Ordered, reliable channel for file transfers, see FileTransferChannel */
+  readonly files: RTCDataChannel;
+  private send: (message: NegotiationMessage) => void;
+  private encryption: MediaEncryption | undefined;
+  private audioProfile: AudioProfile;
+  /** Profile the remote description in effect (or being applied) was munged with */
+  private negotiatedAudioProfile: AudioProfile;
+  private makingOffer = false;
+  private ignoreOffer = false;
+  private isSettingRemoteAnswerPending = false;
+  private remoteCandidates = new IceCandidateQueue();
+  private closed = false;
+
+  constructor({ localId, remoteId, configuration, send, encryption, audioProfile = 'voice' }: PeerSessionOptions) {
+    this.localId = localId;
+    this.remoteId = remoteId;
+    this.polite = isPolitePeer(localId, remoteId);
+    this.send = send;
+    this.encryption = encryption;
+    this.audioProfile = audioProfile;
+    this.negotiatedAudioProfile = audioProfile;
+    this.pc = new RTCPeerConnection({ ...configuration, ...encryption?.configuration });
+
+    if (encryption) {
+      this.pc.addEventListener("track", ({ receiver }) => encryption.decryptReceiver(receiver));
+    }
+
+    this.pc.onnegotiationneeded = this.handleNegotiationNeeded;
+    this.pc.onsignalingstatechange = this.renegotiateAudioProfile;
+    this.chat = this.pc.createDataChannel('chat', { negotiated: true, id: CHAT_CHANNEL_ID, ordered: true });
+    this.files = this.pc.createDataChannel('files', { negotiated: true, id: FILES_CHANNEL_ID, ordered: true });
+    this.pc.onicecandidate = ({ candidate }) => {
+      if (candidate) {
+        this.send({ candidate: candidate.toJSON() });
+      } else {
+        console.log('✅ ICE gathering complete for', remoteId);
+        this.send({ candidate: null });
+      }
+    };
+
+    console.log(`🤝 Peer session with ${remoteId} (${this.polite ? 'polite' : 'impolite'})`);
+  }
+
+  addStream(stream: MediaStream) {
+    stream.getTracks().forEach((track) => this.addTrack(track, stream));
+  }
+
+  /** Send an extra track; fires negotiationneeded */
+  addTrack(track: MediaStreamTrack, stream: MediaStream) {
+    if (this.closed) {
+      return;
+    }
+    console.log('➕ Adding local track:', track.kind);
+    const sender = this.pc.addTrack(track, stream);
+    if (this.encryption) {
+      this.encryption.encryptSender(this.pc.getTransceivers().find((transceiver) => transceiver.sender === sender)!);
+    }
+  }
+
+  removeTrack(track: MediaStreamTrack) {
+    const sender = this.pc.getSenders().find((candidate) => candidate.track === track);
+    if (sender && !this.closed) {
+      console.log('➖ Removing local track:', track.kind);
+      this.pc.removeTrack(sender);
+    }
+  }
+
+  /** Swap an outgoing track in place (by default the first of the same kind); no renegotiation needed */
+  async replaceTrack(track: MediaStreamTrack, previous?: MediaStreamTrack) {
+    const sender = this.pc.getSenders().find((candidate) =>
+      previous ? candidate.track === previous : candidate.track?.kind === track.kind);
+    if (!sender || this.closed) {
+      return;
+    }
+    console.log('🔁 Replacing', track.kind, 'track for', this.remoteId);
+    await sender.replaceTrack(track);
+  }
+
+  /** Switch between speech and music encoding; renegotiates so the new parameters take effect */
+  setAudioProfile(profile: AudioProfile) {
+    if (profile === this.audioProfile || this.closed) {
+      return;
+    }
+    console.log('🎼 Audio profile', profile, 'for', this.remoteId);
+    this.audioProfile = profile;
+    this.renegotiateAudioProfile();
+  }
+
+  /** Restart ICE, optionally with fresh ICE servers (TURN credentials expire) */
+  restartIce(iceServers?: RTCIceServer[]) {
+    if (this.closed) {
+      return;
+    }
+    console.log('🔄 Restarting ICE with', this.remoteId);
+    if (iceServers) {
+      try {
+        this.pc.setConfiguration({ ...this.pc.getConfiguration(), iceServers });
+      } catch (error) {
+        console.warn('⚠️ Failed to update ICE servers:', error);
+      }
+    }
+    // Fires negotiationneeded, which produces an ICE-restart offer from whichever side calls it
+    this.pc.restartIce();
+  }
+
+  async handleMessage(message: NegotiationMessage) {
+    if (this.closed) {
+      return;
+    }
+
+    try {
+      if ("description" in message) {
+        await this.handleDescription(message.description);
+      } else {
+        await this.handleCandidate(message.candidate);
+      }
+    } catch (error) {
+      console.error('❌ Negotiation error with', this.remoteId, error);
+    }
+  }
+
+  close() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.pc.onnegotiationneeded = null;
+    this.pc.onsignalingstatechange = null;
+    this.pc.onicecandidate = null;
+    this.remoteCandidates.clear();
+    this.chat.close();
+    this.files.close();
+    this.pc.close();
+  }
+
+  private handleNegotiationNeeded = async () => {
+    try {
+      this.makingOffer = true;
+      // Parameterless setLocalDescription creates the right offer, including ICE restarts
+      await this.pc.setLocalDescription();
+      console.log('📤 Sending offer to', this.remoteId);
+      this.send({ description: this.pc.localDescription!.toJSON() });
+    } catch (error) {
+      console.error('❌ Error creating offer:', error);
+    } finally {
+      this.makingOffer = false;
+    }
+  };
+
+  // Offers only start from a stable state, like negotiationneeded: mid-negotiation one would skip
+  // the collision handling below. Otherwise waits for the next return to stable, unless the
+  // remote description applied in between already carried the new profile.
+  private renegotiateAudioProfile = () => {
+    if (
+      this.closed ||
+      !this.pc.remoteDescription ||
+      this.negotiatedAudioProfile === this.audioProfile ||
+      this.makingOffer ||
+      this.pc.signalingState !== 'stable'
+    ) {
+      return;
+    }
+    void this.handleNegotiationNeeded();
+  };
+
+  private async handleDescription(description: RTCSessionDescriptionInit) {
+    // An offer collides if we are making one ourselves or are not in a stable state,
+    // unless we are just about to apply a remote answer (which returns us to stable)
+    const readyForOffer =
+      !this.makingOffer &&
+      (this.pc.signalingState === 'stable' || this.isSettingRemoteAnswerPending);
+    const offerCollision = description.type === 'offer' && !readyForOffer;
+
+    this.ignoreOffer = !this.polite && offerCollision;
+    if (this.ignoreOffer) {
+      console.log('⏭️ Ignoring colliding offer from', this.remoteId);
+      return;
+    }
+
+    this.isSettingRemoteAnswerPending = description.type === 'answer';
+    // The polite side implicitly rolls back its own pending offer here
+    // Recorded up front: the state change to stable fires before setRemoteDescription resolves
+    const previousProfile = this.negotiatedAudioProfile;
+    this.negotiatedAudioProfile = this.audioProfile;
+    try {
+      await this.pc.setRemoteDescription(applyAudioProfile(description, this.negotiatedAudioProfile));
+    } catch (error) {
+      this.negotiatedAudioProfile = previousProfile;
+      throw error;
+    }
+    this.isSettingRemoteAnswerPending = false;
+    console.log(`✅ Remote ${description.type} applied from`, this.remoteId);
+    await this.remoteCandidates.flush(this.pc);
+
+    if (description.type === 'offer') {
+      await this.pc.setLocalDescription();
+      console.log('📤 Sending answer to', this.remoteId);
+      this.send({ description: this.pc.localDescription!.toJSON() });
+    }
+  }
+
+  private async handleCandidate(candidate: RTCIceCandidateInit | null) {
+    if (this.ignoreOffer) {
+      // Belongs to an offer we deliberately ignored
+      return;
+    }
+    if (!this.pc.remoteDescription) {
+      this.remoteCandidates.push(candidate);
+      return;
+    }
+    await addRemoteCandidate(this.pc, candidate);
+  }
+}
@@ -1,14 +1,23 @@
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Video, Users, Shield } from "lucide-react";
 import { nanoid } from "nanoid";
+import { createHostKey } from "@/lib/host";
+import { createRoomKey, roomPath } from "@/lib/room-key";
+import { isE2eeSupported } from "@/lib/e2ee";
 
 const Index = () => {
   const navigate = useNavigate();
+  const [e2eeSupported] = useState(isE2eeSupported);
+  const [e2ee, setE2ee] = useState(false);
 
-  const createMeeting = () => {
+  const createMeeting = async () => {
     const roomId = nanoid(10);
-    navigate(`/room/${roomId}`);
+    const hostKey = await createHostKey(roomId);
+    navigate(roomPath(roomId, { key: createRoomKey(), hostKey, e2ee }));
   };
 
   return (
@@ -35,6 +44,20 @@ const Index = () => {
               <Video className="w-6 h-6 mr-2" />
               Создать встречу
             </Button>
+
+            <div className="mt-6 flex flex-col items-center gap-2">
+              <div className="flex items-center gap-3">
+                <Switch id="e2ee" checked={e2ee} onCheckedChange={setE2ee} disabled={!e2eeSupported} />
+                <Label htmlFor="e2ee" className="text-muted-foreground">
+                  Сквозное шифрование медиа
+                </Label>
+              </div>
+              {!e2eeSupported && (
+                <p className="text-sm text-muted-foreground">
+                  Ваш браузер не поддерживает сквозное шифрование
+                </p>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -1,19 +1,81 @@
-import { useEffect, useRef, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useParams, useNavigate, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Video, VideoOff, Mic, MicOff, PhoneOff, Copy } from "lucide-react";
+import { Video, VideoOff, Mic, MicOff, PhoneOff, Copy, Lock, MonitorUp, MonitorX, MessageSquare, Activity, Circle, Square, Hand, SmilePlus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import VideoCall from "@/components/VideoCall";
+import PreJoin, { type JoinSettings } from "@/components/PreJoin";
+import DeviceMenu from "@/components/DeviceMenu";
+import BackgroundSettings from "@/components/BackgroundSettings";
+import AudioSettings from "@/components/AudioSettings";
+import MicLevelMeter from "@/components/MicLevelMeter";
+import { useDeviceSelection } from "@/hooks/use-device-selection";
+import { parseRoomSecrets, roomLink } from "@/lib/room-key";
+import { isE2eeSupported } from "@/lib/e2ee";
+import { detectCapabilities } from "@/lib/participant";
+import { isRecordingSupported } from "@/lib/recording";
+import { REACTIONS, type ReactionBurst } from "@/lib/reactions";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { isBackgroundEffectSupported, NO_BACKGROUND_EFFECT, type BackgroundEffect } from "@/lib/video-effects";
+import { AudioLevelMonitor } from "@/lib/audio-levels";
+import { DEFAULT_AUDIO_SETTINGS, isAudioProcessingSupported, type AudioSettings as AudioSettingsValue } from "@/lib/audio-processing";
+import { initialCallState, isInCall, type CallPhase, type CallState } from "@/lib/call-state";
+
+const CONNECTING_PHASES: CallPhase[] = [
+  "initializing",
+  "joining",
+  "waiting_for_host",
+  "requesting_approval",
+  "waiting_for_participant",
+  "signaling",
+  "connecting",
+];
 
 const Room = () => {
   const { roomId } = useParams();
   const navigate = useNavigate();
+  const location = useLocation();
+  const secrets = parseRoomSecrets(location.hash);
   const { toast } = useToast();
   const [isCameraOn, setIsCameraOn] = useState(true);
   const [isMicOn, setIsMicOn] = useState(true);
+  const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [canShareScreen] = useState(() => detectCapabilities().screenShare);
+  const handleScreenShareEnd = useCallback(() => setIsScreenSharing(false), []);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [unreadMessages, setUnreadMessages] = useState(0);
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [canRecord] = useState(isRecordingSupported);
+  const [recordingDuration, setRecordingDuration] = useState(0);
+  const handleRecordingEnd = useCallback(() => setIsRecording(false), []);
+  const [reaction, setReaction] = useState<ReactionBurst | null>(null);
+  const [isHandRaised, setIsHandRaised] = useState(false);
+  const [backgroundEffect, setBackgroundEffect] = useState<BackgroundEffect>(NO_BACKGROUND_EFFECT);
+  const [canUseBackgroundEffects] = useState(isBackgroundEffectSupported);
+  const handleBackgroundEffectError = useCallback(() => setBackgroundEffect(NO_BACKGROUND_EFFECT), []);
+  const [audioSettings, setAudioSettings] = useState<AudioSettingsValue>(DEFAULT_AUDIO_SETTINGS);
+  const [canProcessAudio] = useState(isAudioProcessingSupported);
+  const handleAudioProcessingError = useCallback(
+    () => setAudioSettings((current) => ({ ...current, processing: false })),
+    [],
+  );
+  const [audioLevels] = useState(() => new AudioLevelMonitor());
   const [isConnected, setIsConnected] = useState(false);
-  const [connectionState, setConnectionState] = useState<RTCPeerConnectionState>("new");
+  const [callState, setCallState] = useState<CallState>(initialCallState);
+  const phase = callState.phase;
   const [callDuration, setCallDuration] = useState(0);
+  const [joinSettings, setJoinSettings] = useState<JoinSettings | null>(null);
+  const { selection, select, setSelection, devices } = useDeviceSelection(joinSettings !== null);
+
+  useEffect(() => {
+    if (!isRecording) {
+      return;
+    }
+    setRecordingDuration(0);
+    const timer = setInterval(() => setRecordingDuration((seconds) => seconds + 1), 1000);
+    return () => clearInterval(timer);
+  }, [isRecording]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -22,7 +84,7 @@ const Room = () => {
   };
 
   const copyRoomLink = () => {
-    const link = `${window.location.origin}/room/${roomId}`;
+    const link = roomLink(roomId!, secrets!);
     navigator.clipboard.writeText(link);
     toast({
       title: "Ссылка скопирована!",
@@ -34,6 +96,60 @@ const Room = () => {
     navigate("/");
   };
 
+  const handleJoin = (settings: JoinSettings) => {
+    setIsCameraOn(settings.cameraOn);
+    setIsMicOn(settings.micOn);
+    setSelection(settings.devices);
+    setJoinSettings(settings);
+  };
+
+  // Without the key from the link fragment no signaling message of this room can be verified
+  if (!secrets) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="text-center max-w-md">
+          <h1 className="text-2xl font-semibold text-foreground mb-3">Неполная ссылка</h1>
+          <p className="text-muted-foreground mb-6">
+            В ссылке на встречу нет ключа комнаты. Попросите организатора отправить полную ссылку.
+          </p>
+          <Button onClick={handleLeave}>На главную</Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Encrypted rooms cannot be joined in clear: the other participants would only see noise
+  if (secrets.e2ee && !isE2eeSupported()) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="text-center max-w-md">
+          <h1 className="text-2xl font-semibold text-foreground mb-3">Шифрование не поддерживается</h1>
+          <p className="text-muted-foreground mb-6">
+            В этой встрече включено сквозное шифрование, но ваш браузер его не поддерживает.
+            Откройте ссылку в свежей версии Chrome, Edge, Safari или Firefox.
+          </p>
+          <Button onClick={handleLeave}>На главную</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!joinSettings) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        <header className="border-b border-border px-6 py-4">
+          <div className="max-w-7xl mx-auto">
+            <h1 className="text-xl font-semibold text-foreground">Подготовка к звонку</h1>
+            <p className="text-sm text-muted-foreground">ID комнаты: {roomId}</p>
+          </div>
+        </header>
+        <div className="flex-1 p-6">
+          <PreJoin onJoin={handleJoin} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       {/* Header */}
@@ -43,7 +159,18 @@ const Room = () => {
             <h1 className="text-xl font-semibold text-foreground">Видеозвонок</h1>
             <p className="text-sm text-muted-foreground">ID комнаты: {roomId}</p>
             <div className="mt-2 flex items-center gap-4">
-              {(connectionState === "connecting" || connectionState === "new") && (
+              {secrets.e2ee && (
+                <div
+                  className="flex items-center gap-2 px-3 py-1.5 bg-emerald-500/10 border border-emerald-500/20 rounded-full"
+                  title="Медиа шифруется ключом из ссылки и недоступно серверам"
+                >
+                  <Lock className="w-3.5 h-3.5 text-emerald-600 dark:text-emerald-400" />
+                  <span className="text-sm text-emerald-600 dark:text-emerald-400 font-medium">
+                    Зашифровано
+                  </span>
+                </div>
+              )}
+              {CONNECTING_PHASES.includes(phase) && (
                 <div className="flex items-center gap-2 px-3 py-1.5 bg-yellow-500/10 border border-yellow-500/20 rounded-full">
                   <div className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse" />
                   <span className="text-sm text-yellow-600 dark:text-yellow-400 font-medium">
@@ -51,7 +178,7 @@ const Room = () => {
                   </span>
                 </div>
               )}
-              {connectionState === "connected" && (
+              {phase === "connected" && (
                 <div className="flex items-center gap-2 px-3 py-1.5 bg-green-500/10 border border-green-500/20 rounded-full">
                   <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
                   <span className="text-sm text-green-600 dark:text-green-400 font-medium">
@@ -59,15 +186,15 @@ const Room = () => {
                   </span>
                 </div>
               )}
-              {connectionState === "disconnected" && (
+              {phase === "reconnecting" && (
                 <div className="flex items-center gap-2 px-3 py-1.5 bg-orange-500/10 border border-orange-500/20 rounded-full">
                   <div className="w-2 h-2 bg-orange-500 rounded-full animate-pulse" />
                   <span className="text-sm text-orange-600 dark:text-orange-400 font-medium">
-                    Отключено
+                    Переподключение...
                   </span>
                 </div>
               )}
-              {connectionState === "failed" && (
+              {phase === "failed" && (
                 <div className="flex items-center gap-2 px-3 py-1.5 bg-red-500/10 border border-red-500/20 rounded-full">
                   <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
                   <span className="text-sm text-red-600 dark:text-red-400 font-medium">
@@ -75,7 +202,7 @@ const Room = () => {
                   </span>
                 </div>
               )}
-              {connectionState === "closed" && (
+              {phase === "ended" && (
                 <div className="flex items-center gap-2 px-3 py-1.5 bg-muted/50 border border-border rounded-full">
                   <div className="w-2 h-2 bg-muted-foreground rounded-full" />
                   <span className="text-sm text-muted-foreground font-medium">
@@ -84,7 +211,16 @@ const Room = () => {
                 </div>
               )}
               
-              {connectionState === "connected" && (
+              {isRecording && (
+                <div className="flex items-center gap-2 px-3 py-1.5 bg-red-500/10 border border-red-500/20 rounded-full">
+                  <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+                  <span className="text-sm text-red-600 dark:text-red-400 font-medium">
+                    Запись {formatTime(recordingDuration)}
+                  </span>
+                </div>
+              )}
+
+              {isInCall(phase) && (
                 <div className="flex items-center gap-2 px-3 py-1.5 bg-primary/10 border border-primary/20 rounded-full">
                   <span className="text-sm text-primary font-medium">
                     {formatTime(callDuration)}
@@ -100,10 +236,31 @@ const Room = () => {
       <div className="flex-1 p-6">
         <VideoCall
           roomId={roomId!}
+          roomKey={secrets.key}
+          hostKey={secrets.hostKey}
+          displayName={joinSettings.name}
+          devices={selection}
+          e2ee={secrets.e2ee}
           isCameraOn={isCameraOn}
           isMicOn={isMicOn}
+          isScreenSharing={isScreenSharing}
+          onScreenShareEnd={handleScreenShareEnd}
+          isChatOpen={isChatOpen}
+          onChatOpenChange={setIsChatOpen}
+          onUnreadChange={setUnreadMessages}
+          isStatsOpen={isStatsOpen}
+          onStatsOpenChange={setIsStatsOpen}
+          isRecording={isRecording}
+          onRecordingEnd={handleRecordingEnd}
+          reaction={reaction}
+          isHandRaised={isHandRaised}
+          backgroundEffect={backgroundEffect}
+          onBackgroundEffectError={handleBackgroundEffectError}
+          audioSettings={audioSettings}
+          onAudioProcessingError={handleAudioProcessingError}
+          audioLevels={audioLevels}
           onConnectionChange={setIsConnected}
-          onConnectionStateChange={setConnectionState}
+          onCallStateChange={setCallState}
           onCallDurationChange={setCallDuration}
         />
       </div>
@@ -125,14 +282,15 @@ const Room = () => {
 
       {/* Controls */}
       <div className="border-t border-border px-6 py-6 bg-card">
-        <div className="max-w-7xl mx-auto flex items-center justify-center gap-4">
+        <div className="max-w-7xl mx-auto flex flex-wrap items-center justify-center gap-3 sm:gap-4">
           <Button
             variant={isMicOn ? "secondary" : "destructive"}
             size="lg"
             onClick={() => setIsMicOn(!isMicOn)}
-            className="w-14 h-14 rounded-full"
+            className="relative w-14 h-14 rounded-full"
           >
             {isMicOn ? <Mic className="w-6 h-6" /> : <MicOff className="w-6 h-6" />}
+            {isMicOn && <MicLevelMeter monitor={audioLevels} />}
           </Button>
           
           <Button
@@ -143,6 +301,97 @@ const Room = () => {
           >
             {isCameraOn ? <Video className="w-6 h-6" /> : <VideoOff className="w-6 h-6" />}
           </Button>
+
+          {canShareScreen && (
+            <Button
+              variant={isScreenSharing ? "default" : "secondary"}
+              size="lg"
+              onClick={() => setIsScreenSharing(!isScreenSharing)}
+              className="w-14 h-14 rounded-full"
+              aria-label={isScreenSharing ? "Остановить демонстрацию" : "Демонстрация экрана"}
+            >
+              {isScreenSharing ? <MonitorX className="w-6 h-6" /> : <MonitorUp className="w-6 h-6" />}
+            </Button>
+          )}
+
+          {canRecord && (
+            <Button
+              variant={isRecording ? "destructive" : "secondary"}
+              size="lg"
+              onClick={() => setIsRecording(!isRecording)}
+              disabled={!isRecording && !isInCall(phase)}
+              className="w-14 h-14 rounded-full"
+              aria-label={isRecording ? "Остановить запись" : "Записать звонок"}
+            >
+              {isRecording ? <Square className="w-5 h-5 fill-current" /> : <Circle className="w-6 h-6 fill-red-500 text-red-500" />}
+            </Button>
+          )}
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="secondary" size="lg" className="w-14 h-14 rounded-full" aria-label="Реакции">
+                <SmilePlus className="w-6 h-6" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent side="top" className="w-auto p-2 flex gap-1">
+              {REACTIONS.map((emoji) => (
+                <Button
+                  key={emoji}
+                  variant="ghost"
+                  size="icon"
+                  className="text-2xl"
+                  onClick={() => setReaction({ id: Date.now(), emoji })}
+                >
+                  {emoji}
+                </Button>
+              ))}
+            </PopoverContent>
+          </Popover>
+
+          <Button
+            variant={isHandRaised ? "default" : "secondary"}
+            size="lg"
+            onClick={() => setIsHandRaised(!isHandRaised)}
+            className="w-14 h-14 rounded-full"
+            aria-label={isHandRaised ? "Опустить руку" : "Поднять руку"}
+            aria-pressed={isHandRaised}
+          >
+            <Hand className="w-6 h-6" />
+          </Button>
+
+          {canUseBackgroundEffects && (
+            <BackgroundSettings effect={backgroundEffect} onChange={setBackgroundEffect} />
+          )}
+
+          <AudioSettings settings={audioSettings} onChange={setAudioSettings} canProcess={canProcessAudio} />
+
+          <DeviceMenu devices={devices} selection={selection} onSelect={select} />
+
+          <Button
+            variant={isChatOpen ? "default" : "secondary"}
+            size="lg"
+            onClick={() => setIsChatOpen(!isChatOpen)}
+            className="relative w-14 h-14 rounded-full"
+            aria-label={unreadMessages > 0 ? `Чат, непрочитанных: ${unreadMessages}` : "Чат"}
+          >
+            <MessageSquare className="w-6 h-6" />
+            {unreadMessages > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs font-medium flex items-center justify-center">
+                {unreadMessages > 99 ? "99+" : unreadMessages}
+              </span>
+            )}
+          </Button>
+
+          <Button
+            variant={isStatsOpen ? "default" : "secondary"}
+            size="lg"
+            onClick={() => setIsStatsOpen(!isStatsOpen)}
+            className="w-14 h-14 rounded-full"
+            aria-label="Качество связи"
+            aria-pressed={isStatsOpen}
+          >
+            <Activity className="w-6 h-6" />
+          </Button>
           
           <Button
             variant="destructive"
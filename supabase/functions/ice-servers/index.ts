@@ -0,0 +1,64 @@
+// Issues short-lived TURN credentials using the coturn REST API scheme
+// (`use-auth-secret` / `static-auth-secret` in turnserver.conf):
+//   username   = "<expiry unix timestamp>:<client id>"
+//   credential = base64(HMAC-SHA1(TURN_SECRET, username))
+//
+// Required secrets: TURN_SECRET, TURN_URLS (comma-separated turn:/turns: URLs).
+// Optional: STUN_URLS (comma-separated), TURN_TTL (seconds, default 3600).
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFAULT_TTL = 3600;
+const DEFAULT_STUN_URLS = ["stun:stun.l.google.com:19302", "stun:stun1.l.google.com:19302"];
+
+const splitList = (value: string | undefined) =>
+  (value ?? "").split(",").map((url) => url.trim()).filter(Boolean);
+
+const hmacSha1Base64 = async (secret: string, message: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const secret = Deno.env.get("TURN_SECRET");
+  const turnUrls = splitList(Deno.env.get("TURN_URLS"));
+  if (!secret || turnUrls.length === 0) {
+    console.error("❌ TURN_SECRET or TURN_URLS is not configured");
+    return json({ error: "TURN is not configured" }, 500);
+  }
+
+  const stunUrls = splitList(Deno.env.get("STUN_URLS"));
+  const ttl = Number(Deno.env.get("TURN_TTL")) || DEFAULT_TTL;
+  const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+  const username = `${expiresAt}:${crypto.randomUUID()}`;
+  const credential = await hmacSha1Base64(secret, username);
+
+  return json({
+    iceServers: [
+      { urls: stunUrls.length > 0 ? stunUrls : DEFAULT_STUN_URLS },
+      { urls: turnUrls, username, credential },
+    ],
+    ttl,
+    expiresAt,
+  });
+});
@@ -0,0 +1,36 @@
+-- Restrict the signaling log: only offers, answers and join decisions are kept, and they can
+-- only be read back for one room at a time, for as long as clients accept them (2 minutes)
+
+-- No more reading the table directly, not even filtered by time
+DROP POLICY IF EXISTS "Users can read recent signaling for specific rooms" ON public.signaling;
+
+DROP POLICY IF EXISTS "Anyone can insert signaling messages" ON public.signaling;
+
+CREATE POLICY "Anyone can insert durable signaling messages"
+ON public.signaling
+FOR INSERT
+WITH CHECK (
+  type IN ('join_approved', 'join_rejected', 'webrtc_offer', 'webrtc_answer')
+  AND char_length(room_id) <= 64
+);
+
+-- ICE candidates and reactions logged before this change
+DELETE FROM public.signaling
+WHERE type NOT IN ('join_approved', 'join_rejected', 'webrtc_offer', 'webrtc_answer');
+
+-- The only way to read the log: recent messages of the room asked for, oldest first
+CREATE OR REPLACE FUNCTION public.get_recent_signaling_messages(p_room_id TEXT)
+RETURNS TABLE (type TEXT, data JSONB, created_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT s.type, s.data, s.created_at
+  FROM public.signaling s
+  WHERE s.room_id = p_room_id
+    AND s.created_at > NOW() - INTERVAL '2 minutes'
+  ORDER BY s.created_at ASC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_recent_signaling_messages(TEXT) TO anon, authenticated;
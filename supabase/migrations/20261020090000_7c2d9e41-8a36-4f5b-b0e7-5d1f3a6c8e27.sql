@@ -0,0 +1,13 @@
+-- Keep ICE candidates in the signaling log too: a replayed offer or answer cannot connect
+-- without the candidates trickled after it. They are read back like the rest, through
+-- get_recent_signaling_messages only, for one room and the last 2 minutes.
+
+DROP POLICY IF EXISTS "Anyone can insert durable signaling messages" ON public.signaling;
+
+CREATE POLICY "Anyone can insert durable signaling messages"
+ON public.signaling
+FOR INSERT
+WITH CHECK (
+  type IN ('join_approved', 'join_rejected', 'webrtc_offer', 'webrtc_answer', 'ice_candidate')
+  AND char_length(room_id) <= 64
+);
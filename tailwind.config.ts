@@ -80,10 +80,16 @@ export default {
             height: "0",
           },
         },
+        "float-up": {
+          "0%": { transform: "translateY(0) scale(0.6)", opacity: "0" },
+          "15%": { transform: "translateY(-1rem) scale(1)", opacity: "1" },
+          "100%": { transform: "translateY(-8rem) scale(1)", opacity: "0" },
+        },
       },
       animation: {
         "accordion-down": "accordion-down 0.2s ease-out",
         "accordion-up": "accordion-up 0.2s ease-out",
+        "float-up": "float-up 3s ease-out forwards",
       },
     },
   },